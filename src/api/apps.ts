@@ -1,4 +1,11 @@
-import type { AxiosInstance } from "axios";
+import type { CacheStatus } from "../cache";
+import { type InvalidRow, RowValidationError } from "../errors";
+import {
+  formatIssues,
+  parseWithSchema,
+  type ValidationSchema,
+} from "../schema";
+import { send, type Transport } from "../transport";
 
 /**
  * Input value type for app parameters.
@@ -102,6 +109,47 @@ export interface RunAppJsonResponse<T = AppJsonRow> {
    * Error message (present when success is false).
    */
   error?: string;
+
+  /**
+   * Rows that failed row schema validation
+   * (present when `onInvalidRow` is `"collect"`).
+   */
+  invalidRows?: InvalidRow[];
+
+  /**
+   * Set when the response was served from the cache.
+   */
+  cache?: CacheStatus;
+}
+
+/**
+ * What to do with rows that do not match the row schema.
+ * - `"throw"` - Throw a {@link RowValidationError} listing every invalid row
+ * - `"drop"` - Silently remove invalid rows from `data`
+ * - `"collect"` - Remove invalid rows from `data` and report them in `invalidRows`
+ */
+export type InvalidRowPolicy = "throw" | "drop" | "collect";
+
+/**
+ * Client-side options for {@link runAppJson}.
+ *
+ * @typeParam S - The type of the row schema
+ */
+export interface RunAppJsonOptions<
+  S extends ValidationSchema = ValidationSchema,
+> {
+  /**
+   * Schema every row is validated against. Accepts a Zod schema or any
+   * validator implementing the Standard Schema spec (Valibot, ArkType, ...).
+   * When provided, the row type is inferred from the schema.
+   */
+  schema?: S;
+
+  /**
+   * What to do with rows that do not match `schema`.
+   * @default "throw"
+   */
+  onInvalidRow?: InvalidRowPolicy;
 }
 
 /**
@@ -164,6 +212,11 @@ export interface RunAppTableResponse {
    * Error message (present when success is false).
    */
   error?: string;
+
+  /**
+   * Set when the response was served from the cache.
+   */
+  cache?: CacheStatus;
 }
 
 /**
@@ -173,11 +226,19 @@ export interface RunAppTableResponse {
  * the result as an array of JSON objects. Each object represents a row
  * with column names as keys.
  *
+ * When a row `schema` is provided, every row is validated and invalid rows
+ * are handled according to `onInvalidRow`.
+ *
  * @typeParam T - The type of each row in the response data array. Defaults to `AppJsonRow`.
- * @param client - The Axios instance to use for the request
+ * @param transport - The transport to send the request with
  * @param request - The run app request parameters
+ * @param options - Client-side options such as the row schema
  * @returns Promise resolving to the app run response with success status and JSON data
- * @throws {AxiosError} When the API request fails (e.g., 401 for invalid API key, 402 for credits exhausted, 404 for app not found)
+ * @throws {AuthenticationError} When the API key is invalid (401)
+ * @throws {InsufficientCreditsError} When credits are exhausted (402)
+ * @throws {AppNotFoundError} When the app does not exist (404)
+ * @throws {RowValidationError} When rows do not match the schema and `onInvalidRow` is `"throw"`
+ * @throws {NextrowsError} When the API request fails for any other reason
  *
  * @example
  * ```typescript
@@ -213,17 +274,58 @@ export interface RunAppTableResponse {
  *     console.log(product.name, product.price); // Fully typed!
  *   }
  * }
+ *
+ * // With runtime row validation
+ * const Product = z.object({ name: z.string(), price: z.number() });
+ * const validated = await client.runAppJson(
+ *   { appId: "abc123xyz", inputs: [] },
+ *   { schema: Product, onInvalidRow: "collect" },
+ * );
+ * console.log(validated.data, validated.invalidRows);
  * ```
  */
 export async function runAppJson<T = AppJsonRow>(
-  client: AxiosInstance,
+  transport: Transport,
   request: RunAppJsonRequest,
+  options: RunAppJsonOptions = {},
 ): Promise<RunAppJsonResponse<T>> {
-  const response = await client.post<RunAppJsonResponse<T>>(
-    "/v1/apps/run/json",
-    request,
-  );
-  return response.data;
+  const path = "/v1/apps/run/json";
+  const result = await send<RunAppJsonResponse<T>>(transport, {
+    method: "POST",
+    path,
+    body: request,
+  });
+
+  const { schema, onInvalidRow = "throw" } = options;
+  if (!schema || !Array.isArray(result.data)) {
+    return result;
+  }
+
+  const rows: T[] = [];
+  const invalidRows: InvalidRow[] = [];
+  for (const [index, row] of result.data.entries()) {
+    const parsed = await parseWithSchema(schema, row);
+    if (parsed.success) {
+      rows.push(parsed.data as T);
+    } else {
+      invalidRows.push({ index, row, issues: parsed.issues });
+    }
+  }
+
+  if (invalidRows.length > 0 && onInvalidRow === "throw") {
+    const [first] = invalidRows;
+    throw new RowValidationError(
+      `${invalidRows.length} of ${result.data.length} rows do not match the row schema (row ${first.index}: ${formatIssues(first.issues)})`,
+      invalidRows,
+      { path, runId: result.runId },
+    );
+  }
+
+  return {
+    ...result,
+    data: rows,
+    ...(onInvalidRow === "collect" ? { invalidRows } : {}),
+  };
 }
 
 /**
@@ -232,10 +334,13 @@ export async function runAppJson<T = AppJsonRow>(
  * Executes a published NextRows app with the provided inputs and returns
  * the result as table data with column headers and rows.
  *
- * @param client - The Axios instance to use for the request
+ * @param transport - The transport to send the request with
  * @param request - The run app request parameters
  * @returns Promise resolving to the app run response with success status and table data
- * @throws {AxiosError} When the API request fails (e.g., 401 for invalid API key, 402 for credits exhausted, 404 for app not found)
+ * @throws {AuthenticationError} When the API key is invalid (401)
+ * @throws {InsufficientCreditsError} When credits are exhausted (402)
+ * @throws {AppNotFoundError} When the app does not exist (404)
+ * @throws {NextrowsError} When the API request fails for any other reason
  *
  * @example
  * ```typescript
@@ -256,12 +361,12 @@ export async function runAppJson<T = AppJsonRow>(
  * ```
  */
 export async function runAppTable(
-  client: AxiosInstance,
+  transport: Transport,
   request: RunAppTableRequest,
 ): Promise<RunAppTableResponse> {
-  const response = await client.post<RunAppTableResponse>(
-    "/v1/apps/run/table",
-    request,
-  );
-  return response.data;
+  return send<RunAppTableResponse>(transport, {
+    method: "POST",
+    path: "/v1/apps/run/table",
+    body: request,
+  });
 }
@@ -1,4 +1,4 @@
-import type { AxiosInstance } from "axios";
+import { send, type Transport } from "../transport";
 
 /**
  * Response from the get credits API endpoint.
@@ -28,9 +28,10 @@ export interface GetCreditsResponse {
 /**
  * Get the current credit balance for the authenticated user.
  *
- * @param client - The Axios instance to use for the request
+ * @param transport - The transport to send the request with
  * @returns Promise resolving to the credits response with success status and credit balance
- * @throws {AxiosError} When the API request fails (e.g., 401 for invalid API key)
+ * @throws {AuthenticationError} When the API key is invalid (401)
+ * @throws {NextrowsError} When the API request fails for any other reason
  *
  * @example
  * ```typescript
@@ -42,8 +43,10 @@ export interface GetCreditsResponse {
  * ```
  */
 export async function getCredits(
-  client: AxiosInstance,
+  transport: Transport,
 ): Promise<GetCreditsResponse> {
-  const response = await client.get<GetCreditsResponse>("/v1/credits");
-  return response.data;
+  return send<GetCreditsResponse>(transport, {
+    method: "GET",
+    path: "/v1/credits",
+  });
 }
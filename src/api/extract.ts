@@ -1,4 +1,16 @@
-import type { AxiosInstance } from "axios";
+import type { CacheStatus } from "../cache";
+import { SchemaValidationError } from "../errors";
+import {
+  formatIssues,
+  type InferSchemaOutput,
+  isStandardSchema,
+  isZodSchema,
+  parseWithSchema,
+  type StandardSchemaV1,
+  type ZodLike,
+} from "../schema";
+import { convertToJsonSchema } from "../schema/json-schema";
+import { send, type Transport } from "../transport";
 
 /**
  * The type of data source to extract from.
@@ -14,18 +26,11 @@ export interface JsonSchema {
   [key: string]: unknown;
 }
 
-/**
- * Generic Zod schema type that works with both Zod v3 and v4.
- * We use a structural type to avoid coupling to specific Zod versions.
- */
-export interface ZodLike {
-  safeParse: (data: unknown) => unknown;
-  _def: unknown;
-}
-
 /**
  * Schema for structured extraction output.
- * Can be either a JSON Schema object or a Zod schema.
+ * Can be a JSON Schema object (including TypeBox schemas), a Zod schema or
+ * any validator implementing the Standard Schema spec whose library has a
+ * JSON Schema converter (see `registerSchemaConverter`).
  *
  * @example
  * ```typescript
@@ -48,63 +53,36 @@ export interface ZodLike {
  *   name: z.string(),
  *   price: z.number()
  * }));
+ *
+ * // Using Valibot (requires @valibot/to-json-schema)
+ * import * as v from "valibot";
+ *
+ * const schema = v.array(v.object({ name: v.string(), price: v.number() }));
  * ```
  */
-export type ExtractSchema = JsonSchema | ZodLike;
+export type ExtractSchema = JsonSchema | ZodLike | StandardSchemaV1;
 
 /**
- * Check if a value is a Zod schema.
+ * The type of `data` returned by {@link extract} for a given schema.
+ * Zod, Standard Schema and TypeBox schemas infer their output type; plain
+ * JSON Schemas yield `unknown`.
  */
-function isZodSchema(schema: ExtractSchema): schema is ZodLike {
-  return (
-    schema !== null &&
-    typeof schema === "object" &&
-    ("_def" in schema || "_zod" in schema) &&
-    "safeParse" in schema &&
-    typeof (schema as ZodLike).safeParse === "function"
-  );
-}
-
-// Cache the zod module to avoid repeated dynamic imports
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let zodModule: { toJSONSchema?: (schema: any) => JsonSchema } | null = null;
+export type InferExtractData<S extends ExtractSchema> = InferSchemaOutput<S>;
 
 /**
- * Convert a schema to JSON Schema format.
- * If the schema is a Zod schema, it will be converted using Zod's toJSONSchema().
+ * How the extraction result is checked against a Zod schema.
+ * - `"strict"` - Throw a {@link SchemaValidationError} when the data does not match
+ * - `"warn"` - Report the mismatch to `onWarning` and return the data unchanged
+ * - `"off"` - Skip validation
  */
-async function convertToJsonSchema(schema: ExtractSchema): Promise<JsonSchema> {
-  if (isZodSchema(schema)) {
-    // Try to use cached zod module first
-    if (zodModule?.toJSONSchema) {
-      return zodModule.toJSONSchema(schema);
-    }
-
-    // Dynamically import zod/v4 (works in both ESM and CJS environments)
-    try {
-      const z = await import("zod/v4");
-      if (z && typeof z.toJSONSchema === "function") {
-        zodModule = z;
-        // Cast to any since we're bridging Zod v3 types with v4's toJSONSchema
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        return z.toJSONSchema(schema as any) as JsonSchema;
-      }
-    } catch {
-      // import failed, zod/v4 not available
-    }
-
-    throw new Error(
-      "Zod schema conversion requires Zod 3.24+ with zod/v4 subpath. " +
-        "Please install Zod 3.24+ or use a JSON Schema object directly.",
-    );
-  }
-  return schema;
-}
+export type ExtractValidateMode = "strict" | "warn" | "off";
 
 /**
  * Request parameters for the extract API endpoint.
+ *
+ * @typeParam S - The type of the provided schema, used to infer the result type.
  */
-export interface ExtractRequest {
+export interface ExtractRequest<S extends ExtractSchema = ExtractSchema> {
   /**
    * The type of data source to extract from.
    * - `"url"` - Provide valid web page URLs in the `data` array
@@ -117,6 +95,8 @@ export interface ExtractRequest {
    * - If `type` is `"url"`, provide valid URLs (e.g., `["https://example.com"]`)
    * - If `type` is `"text"`, provide raw text content
    *
+   * Use `extractMany` to extract from more than 20 sources.
+   *
    * @minItems 1
    * @maxItems 20
    */
@@ -132,7 +112,8 @@ export interface ExtractRequest {
 
   /**
    * Optional schema for consistent and predictable extraction results.
-   * Can be a JSON Schema object or a Zod schema (requires Zod 3.24+).
+   * Can be a JSON Schema object, a Zod schema (requires Zod 3.24+) or a
+   * Standard Schema validator such as Valibot or ArkType.
    * If not provided, the system will auto-generate the structure based on the data.
    *
    * @example
@@ -157,13 +138,35 @@ export interface ExtractRequest {
    * }))
    * ```
    */
-  schema?: ExtractSchema;
+  schema?: S;
+}
+
+/**
+ * Client-side options for {@link extract}.
+ */
+export interface ExtractOptions {
+  /**
+   * How to check the returned data against a Zod or Standard Schema
+   * `schema`. Has no effect for JSON Schemas (including TypeBox schemas),
+   * which are only enforced by the API.
+   * @default "strict"
+   */
+  validate?: ExtractValidateMode;
+
+  /**
+   * Called in `"warn"` mode with the error that `"strict"` mode would throw.
+   * The client defaults to logging it with the `logging` option's logger,
+   * and to ignoring it without one.
+   */
+  onWarning?: (error: SchemaValidationError) => void;
 }
 
 /**
  * Response from the extract API endpoint.
+ *
+ * @typeParam T - The type of the extracted data. Inferred from a Zod schema when one is provided.
  */
-export interface ExtractResponse {
+export interface ExtractResponse<T = unknown> {
   /**
    * Whether the request was successful.
    * Always `true` for successful responses.
@@ -174,7 +177,12 @@ export interface ExtractResponse {
    * The extracted data.
    * Structure depends on the provided schema or is auto-generated based on the data.
    */
-  data?: unknown;
+  data?: T;
+
+  /**
+   * Set when the response was served from the cache.
+   */
+  cache?: CacheStatus;
 }
 
 /**
@@ -183,10 +191,20 @@ export interface ExtractResponse {
  * This endpoint processes the provided data sources and extracts structured
  * information based on the optional prompt and schema.
  *
- * @param client - The Axios instance to use for the request
+ * When a Zod or Standard Schema validator (Valibot, ArkType, ...) is
+ * provided, it is converted to JSON Schema for the request, the result type
+ * is inferred from it and the returned data is validated with it.
+ *
+ * @typeParam S - The type of the provided schema
+ * @param transport - The transport to send the request with
  * @param request - The extraction request parameters
+ * @param options - Client-side options such as the validation mode
  * @returns Promise resolving to the extraction response with success status and extracted data
- * @throws {AxiosError} When the API request fails (e.g., 401 for invalid API key)
+ * @throws {AuthenticationError} When the API key is invalid (401)
+ * @throws {InsufficientCreditsError} When credits are exhausted (402)
+ * @throws {SchemaValidationError} When the data does not match the schema in `"strict"` mode
+ * @throws {SchemaConversionError} When the schema's library has no JSON Schema converter
+ * @throws {NextrowsError} When the API request fails for any other reason
  *
  * @example
  * ```typescript
@@ -216,17 +234,59 @@ export interface ExtractResponse {
  * if (result.success) {
  *   console.log(result.data);
  * }
+ *
+ * // Infer and validate the result type with a Zod schema
+ * const Product = z.object({ name: z.string(), price: z.number() });
+ * const typed = await client.extract({
+ *   type: "url",
+ *   data: ["https://example.com/products"],
+ *   schema: z.array(Product),
+ * });
+ * typed.data; // { name: string; price: number }[] | undefined
  * ```
  */
-export async function extract(
-  client: AxiosInstance,
-  request: ExtractRequest,
-): Promise<ExtractResponse> {
-  // Convert Zod schema to JSON Schema if needed
+export async function extract<S extends ExtractSchema = ExtractSchema>(
+  transport: Transport,
+  request: ExtractRequest<S>,
+  options: ExtractOptions = {},
+): Promise<ExtractResponse<InferExtractData<S>>> {
+  // Convert Zod and Standard Schema validators to JSON Schema
   const payload = request.schema
     ? { ...request, schema: await convertToJsonSchema(request.schema) }
     : request;
 
-  const response = await client.post<ExtractResponse>("/v1/extract", payload);
-  return response.data;
+  const path = "/v1/extract";
+  const result = await send<ExtractResponse>(transport, {
+    method: "POST",
+    path,
+    body: payload,
+  });
+
+  const { validate = "strict" } = options;
+  if (
+    validate === "off" ||
+    !request.schema ||
+    !(isZodSchema(request.schema) || isStandardSchema(request.schema)) ||
+    !result.success ||
+    result.data === undefined
+  ) {
+    return result as ExtractResponse<InferExtractData<S>>;
+  }
+
+  const parsed = await parseWithSchema(request.schema, result.data);
+  if (parsed.success) {
+    return { ...result, data: parsed.data as InferExtractData<S> };
+  }
+
+  const error = new SchemaValidationError(
+    `Extracted data does not match the schema: ${formatIssues(parsed.issues)}`,
+    parsed.issues,
+    result.data,
+    { path },
+  );
+  if (validate === "strict") {
+    throw error;
+  }
+  options.onWarning?.(error);
+  return result as ExtractResponse<InferExtractData<S>>;
 }
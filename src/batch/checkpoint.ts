@@ -0,0 +1,61 @@
+/**
+ * An entry recorded in a checkpoint file for every successful run.
+ */
+interface CheckpointEntry {
+  key: string;
+  runId?: string;
+}
+
+/**
+ * Append-only JSONL file recording which inputs of a batch already succeeded,
+ * so an interrupted batch can be resumed without re-running them.
+ */
+export class Checkpoint {
+  private constructor(
+    private readonly path: string,
+    private readonly keys: Set<string>,
+    private needsNewline: boolean,
+  ) {}
+
+  /**
+   * Open a checkpoint file, loading the keys recorded by previous runs.
+   * A missing file is treated as an empty checkpoint.
+   */
+  static async open(path: string): Promise<Checkpoint> {
+    const { readFile } = await import("node:fs/promises");
+    const keys = new Set<string>();
+    let content = "";
+    try {
+      content = await readFile(path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        keys.add((JSON.parse(line) as CheckpointEntry).key);
+      } catch {
+        // Ignore a partially written last line left by a crash
+      }
+    }
+    return new Checkpoint(
+      path,
+      keys,
+      content.length > 0 && !content.endsWith("\n"),
+    );
+  }
+
+  has(key: string): boolean {
+    return this.keys.has(key);
+  }
+
+  async add(entry: CheckpointEntry): Promise<void> {
+    const { appendFile } = await import("node:fs/promises");
+    this.keys.add(entry.key);
+    const prefix = this.needsNewline ? "\n" : "";
+    this.needsNewline = false;
+    await appendFile(this.path, `${prefix}${JSON.stringify(entry)}\n`, "utf8");
+  }
+}
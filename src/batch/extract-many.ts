@@ -0,0 +1,207 @@
+import type {
+  ExtractRequest,
+  ExtractResponse,
+  ExtractSchema,
+  InferExtractData,
+} from "../api/extract";
+import { AbortError, createAbortError, NextrowsError } from "../errors";
+import { chunk, mapWithConcurrency } from "../utils/concurrency";
+
+/**
+ * Maximum number of sources accepted by a single extract request.
+ */
+export const MAX_EXTRACT_SOURCES = 20;
+
+/**
+ * Options controlling how {@link extractMany} splits and runs batches.
+ */
+export interface ExtractManyOptions {
+  /**
+   * Number of sources sent in each extract request (1-20).
+   * Use `1` for exact per-source provenance on every record.
+   * @default 20
+   */
+  batchSize?: number;
+
+  /**
+   * Maximum number of batches running at the same time.
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * Signal cancelling every in-flight and pending batch. The call then
+   * rejects with an `AbortError` instead of reporting partial results.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A single extracted item of type `T`: the element type when the extracted
+ * data is an array, otherwise the data itself.
+ */
+export type ExtractManyItem<T> = T extends readonly (infer U)[] ? U : T;
+
+/**
+ * An extracted record tagged with the batch it came from.
+ */
+export interface ExtractRecord<T> {
+  /**
+   * The extracted record.
+   */
+  data: T;
+
+  /**
+   * Index of the batch that produced this record.
+   */
+  batchIndex: number;
+
+  /**
+   * All sources (URLs or text) sent in that batch.
+   */
+  sources: string[];
+
+  /**
+   * The source this record was extracted from.
+   * Only set when the batch contained a single source.
+   */
+  source?: string;
+}
+
+/**
+ * A batch that failed, with the sources it contained.
+ */
+export interface ExtractBatchError {
+  /**
+   * Index of the failed batch.
+   */
+  batchIndex: number;
+
+  /**
+   * The sources sent in the failed batch.
+   */
+  sources: string[];
+
+  /**
+   * The error the batch failed with.
+   */
+  error: NextrowsError;
+}
+
+/**
+ * Merged result of {@link extractMany}.
+ */
+export interface ExtractManyResponse<T> {
+  /**
+   * Whether every batch succeeded.
+   */
+  success: boolean;
+
+  /**
+   * Records from all successful batches, in batch order.
+   */
+  data: ExtractRecord<T>[];
+
+  /**
+   * Failed batches. Records from the other batches are still returned.
+   */
+  errors: ExtractBatchError[];
+
+  /**
+   * Total number of batches the sources were split into.
+   */
+  batchCount: number;
+}
+
+/**
+ * Extract structured data from any number of sources.
+ *
+ * Sources are split into batches of at most 20 (the per-request limit),
+ * batches run with bounded concurrency, and array results are merged into a
+ * single list of records tagged with their batch and source. A failing batch
+ * is reported in `errors` without discarding the other batches' results.
+ *
+ * @param extract - Function performing a single extract request
+ * @param request - The extraction request; `data` may contain any number of sources
+ * @param options - Batch size, concurrency and cancellation signal
+ * @returns Promise resolving to the merged records and per-batch errors
+ * @throws {AbortError} When `signal` is aborted
+ * @throws {RangeError} When `batchSize` or `concurrency` is invalid
+ */
+export async function extractMany<S extends ExtractSchema = ExtractSchema>(
+  extract: (
+    request: ExtractRequest<S>,
+  ) => Promise<ExtractResponse<InferExtractData<S>>>,
+  request: ExtractRequest<S>,
+  options: ExtractManyOptions = {},
+): Promise<ExtractManyResponse<ExtractManyItem<InferExtractData<S>>>> {
+  const { batchSize = MAX_EXTRACT_SOURCES, concurrency = 4 } = options;
+  if (
+    !Number.isInteger(batchSize) ||
+    batchSize < 1 ||
+    batchSize > MAX_EXTRACT_SOURCES
+  ) {
+    throw new RangeError(
+      `batchSize must be an integer between 1 and ${MAX_EXTRACT_SOURCES}`,
+    );
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RangeError("concurrency must be a positive integer");
+  }
+
+  type Item = ExtractManyItem<InferExtractData<S>>;
+  const batches = chunk(request.data, batchSize);
+  const data: ExtractRecord<Item>[] = [];
+  const errors: ExtractBatchError[] = [];
+
+  const results = await mapWithConcurrency(
+    batches,
+    concurrency,
+    async (sources, batchIndex) => {
+      if (options.signal?.aborted) {
+        throw createAbortError(options.signal);
+      }
+      try {
+        const response = await extract({ ...request, data: sources });
+        if (!response.success) {
+          throw new NextrowsError("Extraction failed", { path: "/v1/extract" });
+        }
+        return { sources, batchIndex, response };
+      } catch (error) {
+        if (!(error instanceof NextrowsError) || error instanceof AbortError) {
+          throw error;
+        }
+        return { sources, batchIndex, error };
+      }
+    },
+  );
+
+  for (const result of results) {
+    const { sources, batchIndex } = result;
+    if (result.error) {
+      errors.push({ batchIndex, sources, error: result.error });
+      continue;
+    }
+    const source = sources.length === 1 ? sources[0] : undefined;
+    const value = result.response?.data;
+    if (value === undefined) {
+      continue;
+    }
+    const items = (Array.isArray(value) ? value : [value]) as Item[];
+    for (const item of items) {
+      data.push({
+        data: item,
+        batchIndex,
+        sources,
+        ...(source !== undefined ? { source } : {}),
+      });
+    }
+  }
+
+  return {
+    success: errors.length === 0,
+    data,
+    errors,
+    batchCount: batches.length,
+  };
+}
@@ -0,0 +1,19 @@
+export {
+  type ExtractBatchError,
+  type ExtractManyItem,
+  type ExtractManyOptions,
+  type ExtractManyResponse,
+  type ExtractRecord,
+  extractMany,
+  MAX_EXTRACT_SOURCES,
+} from "./extract-many";
+export {
+  type AppBatchFailure,
+  type AppBatchFormat,
+  type AppBatchProgress,
+  type AppBatchResult,
+  type AppBatchRunners,
+  type AppBatchSuccess,
+  type RunAppBatchOptions,
+  runAppBatch,
+} from "./run-app-batch";
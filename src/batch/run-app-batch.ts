@@ -0,0 +1,288 @@
+import type {
+  AppInput,
+  RunAppJsonResponse,
+  RunAppRequest,
+  RunAppTableData,
+  RunAppTableResponse,
+} from "../api/apps";
+import { AbortError, createAbortError, NextrowsError } from "../errors";
+import { sha256, stableStringify } from "../utils/hash";
+import { Checkpoint } from "./checkpoint";
+
+/**
+ * Output format of each app run in a batch.
+ * - `"json"` - Rows as JSON objects (`runAppJson`)
+ * - `"table"` - Columns and table data (`runAppTable`)
+ */
+export type AppBatchFormat = "json" | "table";
+
+/**
+ * Progress of a batch, reported after every finished run.
+ */
+export interface AppBatchProgress {
+  /**
+   * Total number of input sets in the batch.
+   */
+  total: number;
+
+  /**
+   * Number of runs that finished in this session, successfully or not.
+   */
+  completed: number;
+
+  /**
+   * Number of runs that succeeded in this session.
+   */
+  succeeded: number;
+
+  /**
+   * Number of runs that failed in this session.
+   */
+  failed: number;
+
+  /**
+   * Number of input sets skipped because the checkpoint recorded them as
+   * already succeeded.
+   */
+  skipped: number;
+
+  /**
+   * Number of runs currently in flight.
+   */
+  inFlight: number;
+}
+
+/**
+ * Options for {@link runAppBatch}.
+ */
+export interface RunAppBatchOptions {
+  /**
+   * Maximum number of app runs in flight at the same time.
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * Output format of each run.
+   * @default "json"
+   */
+  format?: AppBatchFormat;
+
+  /**
+   * Path of a checkpoint file (JSONL). Every successful run is appended to it,
+   * and input sets already recorded there are skipped, so a crashed batch can
+   * be resumed by running it again with the same checkpoint. Node.js only.
+   */
+  checkpoint?: string;
+
+  /**
+   * Called after every finished run with the progress of the batch.
+   */
+  onProgress?: (progress: AppBatchProgress) => void;
+
+  /**
+   * Signal cancelling every in-flight run. The iterator then throws an
+   * `AbortError`, and input sets that did not finish are not checkpointed.
+   */
+  signal?: AbortSignal;
+}
+
+interface AppBatchResultBase {
+  /**
+   * Position of the input set in `inputSets`.
+   */
+  index: number;
+
+  /**
+   * The inputs the app was run with.
+   */
+  inputs: AppInput[];
+
+  /**
+   * Unique identifier of the run, when the API returned one.
+   */
+  runId?: string;
+}
+
+/**
+ * A successful app run in a batch.
+ *
+ * @typeParam D - The type of the run's data
+ */
+export interface AppBatchSuccess<D> extends AppBatchResultBase {
+  success: true;
+
+  /**
+   * The run's output data.
+   */
+  data?: D;
+
+  /**
+   * Time taken to execute the app in milliseconds.
+   */
+  elapsedTime?: number;
+}
+
+/**
+ * A failed app run in a batch.
+ */
+export interface AppBatchFailure extends AppBatchResultBase {
+  success: false;
+
+  /**
+   * The error the run failed with.
+   */
+  error: NextrowsError;
+}
+
+/**
+ * Result of a single app run in a batch.
+ *
+ * @typeParam D - The type of the run's data
+ */
+export type AppBatchResult<D> = AppBatchSuccess<D> | AppBatchFailure;
+
+/**
+ * Functions used by {@link runAppBatch} to run a single input set.
+ */
+export interface AppBatchRunners<T> {
+  json: (request: RunAppRequest) => Promise<RunAppJsonResponse<T>>;
+  table: (request: RunAppRequest) => Promise<RunAppTableResponse>;
+}
+
+/**
+ * Compute the checkpoint key identifying an input set of an app run in a
+ * format.
+ */
+function checkpointKey(
+  appId: string,
+  format: AppBatchFormat,
+  inputs: AppInput[],
+): Promise<string> {
+  return sha256(stableStringify({ appId, format, inputs }));
+}
+
+/**
+ * Run a published app once per input set with bounded concurrency.
+ *
+ * Results are yielded as runs finish, which is not necessarily the order of
+ * `inputSets`; use `index` to correlate them. Failed runs are yielded with
+ * `success: false` instead of stopping the batch.
+ *
+ * @param runners - Functions running a single app request
+ * @param appId - The ID of the app to run
+ * @param inputSets - One set of inputs per run
+ * @param options - Concurrency, format, checkpoint, progress and
+ * cancellation options
+ * @throws {AbortError} When `signal` is aborted
+ */
+export async function* runAppBatch<T>(
+  runners: AppBatchRunners<T>,
+  appId: string,
+  inputSets: AppInput[][],
+  options: RunAppBatchOptions = {},
+): AsyncGenerator<AppBatchResult<T[] | RunAppTableData>> {
+  const { concurrency = 4, format = "json", onProgress } = options;
+  const checkpoint = options.checkpoint
+    ? await Checkpoint.open(options.checkpoint)
+    : undefined;
+
+  const pending: { index: number; inputs: AppInput[]; key?: string }[] = [];
+  for (const [index, inputs] of inputSets.entries()) {
+    const key = checkpoint
+      ? await checkpointKey(appId, format, inputs)
+      : undefined;
+    if (key && checkpoint?.has(key)) continue;
+    pending.push({ index, inputs, key });
+  }
+
+  const progress: AppBatchProgress = {
+    total: inputSets.length,
+    completed: 0,
+    succeeded: 0,
+    failed: 0,
+    skipped: inputSets.length - pending.length,
+    inFlight: 0,
+  };
+
+  type Pending = (typeof pending)[number];
+  type Result = AppBatchResult<T[] | RunAppTableData>;
+
+  const run = async ({ index, inputs }: Pending): Promise<Result> => {
+    try {
+      const response =
+        format === "table"
+          ? await runners.table({ appId, inputs })
+          : await runners.json({ appId, inputs });
+      if (!response.success) {
+        return {
+          index,
+          inputs,
+          success: false,
+          runId: response.runId,
+          error: new NextrowsError(response.error ?? "App run failed", {
+            serverMessage: response.error,
+            runId: response.runId,
+          }),
+        };
+      }
+      return {
+        index,
+        inputs,
+        success: true,
+        data: response.data,
+        runId: response.runId,
+        elapsedTime: response.elapsedTime,
+      };
+    } catch (error) {
+      if (!(error instanceof NextrowsError) || error instanceof AbortError) {
+        throw error;
+      }
+      return { index, inputs, success: false, runId: error.runId, error };
+    }
+  };
+
+  const inFlight = new Map<number, Promise<[Pending, Result]>>();
+  let next = 0;
+
+  try {
+    while (next < pending.length || inFlight.size > 0) {
+      if (options.signal?.aborted) {
+        // Runs still in flight are cancelled by the same signal
+        throw createAbortError(options.signal);
+      }
+      while (
+        inFlight.size < Math.max(1, concurrency) &&
+        next < pending.length
+      ) {
+        const item = pending[next++];
+        inFlight.set(
+          item.index,
+          run(item).then((result) => [item, result]),
+        );
+      }
+      progress.inFlight = inFlight.size;
+
+      const [item, result] = await Promise.race(inFlight.values());
+      inFlight.delete(item.index);
+
+      progress.completed++;
+      progress.inFlight = inFlight.size;
+      if (result.success) {
+        progress.succeeded++;
+        if (checkpoint && item.key) {
+          await checkpoint.add({ key: item.key, runId: result.runId });
+        }
+      } else {
+        progress.failed++;
+      }
+      onProgress?.({ ...progress });
+
+      yield result;
+    }
+  } finally {
+    // Runs left behind by an error, an abort or a consumer that stopped
+    // iterating must not surface as unhandled rejections
+    for (const running of inFlight.values()) running.catch(() => {});
+  }
+}
@@ -0,0 +1,171 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { BudgetExceededError } from "../errors";
+import { FakeNextrowsServer } from "../testing";
+
+const inputs = [{ key: "url", value: "https://example.com" }];
+
+function billedRequests(server: FakeNextrowsServer): string[] {
+  return server.requests
+    .map((request) => request.path)
+    .filter((path) => path !== "/v1/credits");
+}
+
+describe("budget", () => {
+  it("should infer spend per call from the balance and add it up per tag", async () => {
+    const server = new FakeNextrowsServer({ credits: 100 });
+    server.app("app-1", () => {
+      server.credits -= 4; // 5 credits per run in total
+      return [{ ok: true }];
+    });
+    const client = server.createClient({ budget: {} });
+
+    await client.runAppJson({ appId: "app-1", inputs }, { tag: "acme" });
+    await client.runAppJson({ appId: "app-1", inputs }, { tag: "acme" });
+    await client.extract(
+      { type: "url", data: ["https://example.com"] },
+      { tag: "globex" },
+    );
+    await client.runAppTable({ appId: "app-1", inputs });
+    await client.budget?.flush();
+
+    expect(client.budget?.usage()).toEqual({
+      balance: 84,
+      spent: 16,
+      calls: 4,
+      refused: 0,
+      tags: {
+        acme: { credits: 10, calls: 2 },
+        globex: { credits: 1, calls: 1 },
+      },
+    });
+  });
+
+  it("should refuse calls below the floor before sending them", async () => {
+    const server = new FakeNextrowsServer({ credits: 12 }).app("app-1", [
+      { ok: true },
+    ]);
+    const client = server.createClient({ budget: { floor: 10 } });
+
+    for (let run = 0; run < 3; run++) {
+      await client.runAppJson({ appId: "app-1", inputs });
+    }
+    const error = await client
+      .runAppJson({ appId: "app-1", inputs })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error).toMatchObject({
+      reason: "floor",
+      limit: 10,
+      balance: 9,
+      spent: 3,
+      message: "The credit balance (9) is below the budget floor of 10",
+    });
+    expect(billedRequests(server)).toHaveLength(3);
+    await expect(client.getCredits()).resolves.toMatchObject({
+      data: { credits: 9 },
+    });
+  });
+
+  it("should stop a runaway batch at the session limit", async () => {
+    const server = new FakeNextrowsServer({ credits: 1000 }).app("app-1", [
+      { ok: true },
+    ]);
+    const client = server.createClient({
+      budget: { sessionLimit: 3 },
+      retry: false,
+    });
+
+    const results = [];
+    for await (const result of client.runAppBatch(
+      "app-1",
+      Array.from({ length: 10 }, () => inputs),
+      { concurrency: 1, tag: "nightly" },
+    )) {
+      results.push(result);
+    }
+
+    expect(results.filter((result) => result.success)).toHaveLength(3);
+    expect(
+      results.filter(
+        (result) =>
+          !result.success && result.error instanceof BudgetExceededError,
+      ),
+    ).toHaveLength(7);
+    expect(billedRequests(server)).toHaveLength(3);
+    expect(client.budget?.usage()).toMatchObject({
+      spent: 3,
+      refused: 7,
+      tags: { nightly: { credits: 3, calls: 3 } },
+    });
+  });
+
+  it("should read the balance in the background, skipping cache hits", async () => {
+    const server = new FakeNextrowsServer({ credits: 50, latency: 20 }).app(
+      "app-1",
+      [{ ok: true }],
+    );
+    const client = server.createClient({ budget: {}, cache: {} });
+
+    await client.runAppJson({ appId: "app-1", inputs });
+    const beforeRead = client.budget?.usage();
+    await client.budget?.flush();
+    await client.runAppJson({ appId: "app-1", inputs });
+    await client.budget?.flush();
+
+    expect(beforeRead).toMatchObject({ balance: 50, spent: 0, calls: 1 });
+    expect(server.requests.map((request) => request.path)).toEqual([
+      "/v1/credits",
+      "/v1/apps/run/json",
+      "/v1/credits",
+    ]);
+    expect(client.budget?.usage()).toMatchObject({ spent: 1, calls: 1 });
+  });
+
+  it("should not account cassette replays", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "nextrows-budget-"));
+    try {
+      const server = new FakeNextrowsServer({ credits: 50 }).app("app-1", [
+        { ok: true },
+      ]);
+      const cassette = { path: join(directory, "cassette.json") };
+      const recorder = server.createClient({
+        budget: {},
+        cassette: { ...cassette, mode: "record" },
+      });
+      await recorder.runAppJson({ appId: "app-1", inputs });
+      await recorder.budget?.flush();
+      const recorded = server.requests.length;
+
+      const client = server.createClient({ budget: {}, cassette });
+      await client.runAppJson({ appId: "app-1", inputs });
+      await client.budget?.flush();
+
+      expect(server.requests).toHaveLength(recorded);
+      expect(client.budget?.usage()).toMatchObject({ spent: 0, calls: 0 });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should refresh a stale balance to notice spend by other clients", async () => {
+    const server = new FakeNextrowsServer({ credits: 50 }).app("app-1", [
+      { ok: true },
+    ]);
+    const client = server.createClient({
+      budget: { floor: 20, refreshInterval: 0 },
+    });
+
+    await client.runAppJson({ appId: "app-1", inputs });
+    await client.budget?.flush();
+    server.credits = 15; // spent by another process
+
+    await expect(
+      client.runAppJson({ appId: "app-1", inputs }),
+    ).rejects.toMatchObject({ reason: "floor", balance: 15 });
+    expect(client.budget?.usage()).toMatchObject({ spent: 1, balance: 15 });
+  });
+});
@@ -0,0 +1,235 @@
+import { BudgetExceededError } from "../errors";
+
+/**
+ * Options for the `budget` client option. Without `floor` and
+ * `sessionLimit`, calls are never refused but usage is still accounted.
+ */
+export interface BudgetOptions {
+  /**
+   * Refuse new calls while the credit balance is below this number.
+   */
+  floor?: number;
+
+  /**
+   * Refuse new calls once this client has spent this many credits.
+   */
+  sessionLimit?: number;
+
+  /**
+   * Age in milliseconds after which the cached balance is refreshed before
+   * the next call, to notice credits spent by other clients.
+   * @default 60000
+   */
+  refreshInterval?: number;
+}
+
+/**
+ * Credits spent and calls made under one tag.
+ */
+export interface TagUsage {
+  credits: number;
+  calls: number;
+}
+
+/**
+ * Snapshot of the guard returned by {@link BudgetGuard.usage}.
+ */
+export interface BudgetUsage {
+  /**
+   * The last known credit balance, or `undefined` before the first call.
+   */
+  balance: number | undefined;
+
+  /**
+   * Credits spent by this client, inferred from balance changes.
+   */
+  spent: number;
+
+  /**
+   * Calls that were sent.
+   */
+  calls: number;
+
+  /**
+   * Calls refused by the guard.
+   */
+  refused: number;
+
+  /**
+   * Usage per `tag` passed to the calls. Untagged calls only count towards
+   * the totals.
+   */
+  tags: Record<string, TagUsage>;
+}
+
+/**
+ * Refuses calls when the credit balance falls below a floor or the session
+ * has spent its cap, and infers what each call spent by reading the balance
+ * after it.
+ *
+ * The balance is read in the background after calls that reached the API,
+ * one read at a time. Its drop is split evenly between the calls that
+ * finished since the previous read, so totals are exact while per-tag
+ * figures are approximate when tagged calls overlap each other or a read.
+ * With a floor or session limit, a call first waits for a read still in
+ * flight, so that the limits see what the previous calls spent.
+ */
+export class BudgetGuard {
+  private balance: number | undefined;
+  private refreshedAt = 0;
+  private spent = 0;
+  private calls = 0;
+  private refused = 0;
+  private active = 0;
+  private carried = 0;
+  private readonly tags = new Map<string, TagUsage>();
+  private unsettled: (string | undefined)[] = [];
+  private refreshing: Promise<void> | undefined;
+  private next: Promise<void> | undefined;
+
+  /**
+   * @param fetchBalance - Reads the current credit balance from the API
+   * @param options - Floor, session cap and refresh interval
+   */
+  constructor(
+    private readonly fetchBalance: () => Promise<number>,
+    private readonly options: BudgetOptions = {},
+  ) {}
+
+  /**
+   * Credits spent and calls made so far, in total and per tag.
+   */
+  usage(): BudgetUsage {
+    return {
+      balance: this.balance,
+      spent: this.spent,
+      calls: this.calls,
+      refused: this.refused,
+      tags: Object.fromEntries(
+        [...this.tags].map(([tag, usage]) => [tag, { ...usage }]),
+      ),
+    };
+  }
+
+  /**
+   * Check the budget before a call, refreshing the balance when it is
+   * unknown or older than `refreshInterval`.
+   *
+   * @throws {BudgetExceededError} When the balance is below the floor or the
+   * session cap is spent
+   */
+  async check(): Promise<void> {
+    const { floor, sessionLimit, refreshInterval = 60000 } = this.options;
+    if (
+      this.balance === undefined ||
+      Date.now() - this.refreshedAt >= refreshInterval
+    ) {
+      await this.refresh();
+    } else if (floor !== undefined || sessionLimit !== undefined) {
+      await this.flush();
+    }
+    const balance = this.balance ?? 0;
+    if (floor !== undefined && balance < floor) {
+      this.refused++;
+      throw new BudgetExceededError(
+        `The credit balance (${balance}) is below the budget floor of ${floor}`,
+        { reason: "floor", limit: floor, balance, spent: this.spent },
+      );
+    }
+    if (sessionLimit !== undefined && this.spent >= sessionLimit) {
+      this.refused++;
+      throw new BudgetExceededError(
+        `This client has spent ${this.spent} credits, reaching its session limit of ${sessionLimit}`,
+        { reason: "session", limit: sessionLimit, balance, spent: this.spent },
+      );
+    }
+    this.active++;
+  }
+
+  /**
+   * Account for a finished call, successful or not, and read the balance
+   * again in the background if the call reached the API. Failures to read
+   * it are ignored; the call is then accounted at the next read.
+   *
+   * @param tag - The `tag` of the call
+   * @param sent - Whether the call reached the API, rather than being
+   * served from the cache or a cassette
+   */
+  settle(tag: string | undefined, sent: boolean): void {
+    this.active--;
+    if (!sent) {
+      return;
+    }
+    this.calls++;
+    if (tag !== undefined) {
+      const usage = this.tags.get(tag) ?? { credits: 0, calls: 0 };
+      usage.calls++;
+      this.tags.set(tag, usage);
+    }
+    this.unsettled.push(tag);
+    this.refresh().catch(() => {});
+  }
+
+  /**
+   * Wait until the balance reads in flight are done, so that
+   * {@link BudgetGuard.usage} accounts for every finished call.
+   */
+  async flush(): Promise<void> {
+    while (this.refreshing) {
+      await (this.next ?? this.refreshing).catch(() => {});
+    }
+  }
+
+  /**
+   * Read the balance. Reads are serialized: a read requested while another
+   * is in flight runs after it, so that it sees calls that finished since.
+   */
+  private refresh(): Promise<void> {
+    if (this.refreshing) {
+      this.next ??= this.refreshing
+        .catch(() => {})
+        .then(() => {
+          this.next = undefined;
+          return this.refresh();
+        });
+      return this.next;
+    }
+    const calls = this.unsettled.splice(0);
+    this.refreshing = this.fetchBalance()
+      .then(
+        (balance) => this.record(balance, calls),
+        (error: unknown) => {
+          this.unsettled.unshift(...calls);
+          throw error;
+        },
+      )
+      .finally(() => {
+        this.refreshing = undefined;
+      });
+    return this.refreshing;
+  }
+
+  private record(balance: number, calls: (string | undefined)[]): void {
+    const drop = this.balance === undefined ? 0 : this.balance - balance;
+    this.balance = balance;
+    this.refreshedAt = Date.now();
+    if (calls.length === 0) {
+      // A drop seen while calls are in flight is theirs, to be accounted
+      // when they finish; otherwise it was spent by another client
+      if (this.active > 0 && Number.isFinite(drop)) {
+        this.carried += Math.max(0, drop);
+      }
+      return;
+    }
+    const spent =
+      (Number.isFinite(drop) ? Math.max(0, drop) : 0) + this.carried;
+    this.carried = 0;
+    this.spent += spent;
+    for (const tag of calls) {
+      const usage = tag === undefined ? undefined : this.tags.get(tag);
+      if (usage) {
+        usage.credits += spent / calls.length;
+      }
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod/v4";
+import { MemoryHistoryStore } from "../history";
+import { FakeNextrowsServer } from "../testing";
+import { FileCacheStore, MemoryCacheStore } from "./index";
+
+describe("response cache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const appRequest = {
+    appId: "abc123xyz",
+    inputs: [{ key: "url", value: "https://example.com" }],
+  };
+
+  it("should serve repeated app runs from the cache and flag hits", async () => {
+    let runs = 0;
+    const server = new FakeNextrowsServer().app("abc123xyz", () => [
+      { run: ++runs },
+    ]);
+    const client = server.createClient({ cache: {} });
+
+    const first = await client.runAppJson(appRequest);
+    const second = await client.runAppJson(appRequest);
+
+    expect(first.cache).toBeUndefined();
+    expect(second.data).toEqual([{ run: 1 }]);
+    expect(second.cache).toMatchObject({ hit: true, stale: false });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it("should not share entries between API keys", async () => {
+    const server = new FakeNextrowsServer().app("abc123xyz", [{ a: 1 }]);
+    const store = new MemoryCacheStore();
+    const client = (apiKey: string) =>
+      server.createClient({ apiKey, cache: { store } });
+
+    await client("sk-nr-acme").runAppJson(appRequest);
+    const other = await client("sk-nr-globex").runAppJson(appRequest);
+    const same = await client("sk-nr-acme").runAppJson(appRequest);
+
+    expect(other.cache).toBeUndefined();
+    expect(same.cache?.hit).toBe(true);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it("should key extract requests on the converted JSON schema", async () => {
+    const server = new FakeNextrowsServer().onExtract(() => [{ name: "A" }]);
+    const client = server.createClient({ cache: {} });
+    const request = { type: "url" as const, data: ["https://example.com"] };
+
+    await client.extract({
+      ...request,
+      schema: z.array(z.object({ name: z.string() })),
+    });
+    const hit = await client.extract({
+      ...request,
+      schema: z.array(z.object({ name: z.string() })),
+    });
+    const miss = await client.extract({
+      ...request,
+      schema: z.array(z.object({ name: z.string().min(1) })),
+    });
+
+    expect(hit.cache?.hit).toBe(true);
+    expect(miss.cache).toBeUndefined();
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it("should support bypass and refresh per call", async () => {
+    let runs = 0;
+    const server = new FakeNextrowsServer().app("abc123xyz", () => [
+      { run: ++runs },
+    ]);
+    const client = server.createClient({ cache: {} });
+
+    await client.runAppJson(appRequest);
+    const bypassed = await client.runAppJson(appRequest, { cache: "bypass" });
+    const refreshed = await client.runAppJson(appRequest, { cache: "refresh" });
+    const cached = await client.runAppJson(appRequest);
+
+    expect(bypassed.data).toEqual([{ run: 2 }]);
+    expect(refreshed.data).toEqual([{ run: 3 }]);
+    expect(cached.data).toEqual([{ run: 3 }]);
+  });
+
+  it("should not cache failures or credit lookups", async () => {
+    const server = new FakeNextrowsServer()
+      .app("abc123xyz", [])
+      .fail({ status: 500 });
+    const client = server.createClient({ cache: {}, retry: false });
+
+    await expect(client.runAppJson(appRequest)).rejects.toThrow();
+    await client.runAppJson(appRequest);
+    await client.getCredits();
+    await client.getCredits();
+
+    expect(server.requests).toHaveLength(4);
+  });
+
+  it("should expire entries and serve stale ones while revalidating", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    let runs = 0;
+    const server = new FakeNextrowsServer().app("abc123xyz", () => [
+      { run: ++runs },
+    ]);
+    const client = server.createClient({
+      cache: { ttl: 1000, staleWhileRevalidate: 1000 },
+    });
+
+    await client.runAppJson(appRequest);
+    vi.advanceTimersByTime(1500);
+    const stale = await client.runAppJson(appRequest);
+    expect(stale.data).toEqual([{ run: 1 }]);
+    expect(stale.cache).toMatchObject({ stale: true, age: 1500 });
+
+    await vi.waitFor(() => expect(server.requests).toHaveLength(2));
+    const revalidated = await client.runAppJson(appRequest);
+    expect(revalidated.data).toEqual([{ run: 2 }]);
+    expect(revalidated.cache?.stale).toBe(false);
+
+    vi.advanceTimersByTime(2500);
+    const expired = await client.runAppJson(appRequest);
+    expect(expired.cache).toBeUndefined();
+    expect(expired.data).toEqual([{ run: 3 }]);
+  });
+
+  it("should revalidate through the middleware, budget and history", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const server = new FakeNextrowsServer({ credits: 100 }).app("abc123xyz", [
+      { ok: true },
+    ]);
+    const store = new MemoryHistoryStore();
+    const sent: string[] = [];
+    const client = server.createClient({
+      cache: { ttl: 1000, staleWhileRevalidate: 1000 },
+      budget: {},
+      history: { store },
+      middleware: [
+        {
+          onRequest: (request) => {
+            sent.push(request.path);
+            return request;
+          },
+        },
+      ],
+    });
+
+    await client.runAppJson(appRequest);
+    vi.advanceTimersByTime(1500);
+    await client.runAppJson(appRequest);
+    await vi.waitFor(async () => expect(await store.list({})).toHaveLength(3));
+    await client.budget?.flush();
+
+    expect(sent.filter((path) => path === "/v1/apps/run/json")).toHaveLength(3);
+    expect(client.budget?.usage()).toMatchObject({ spent: 2, calls: 2 });
+  });
+
+  it("should evict the least recently used entries", async () => {
+    const server = new FakeNextrowsServer().app("abc123xyz", ({ url }) => [
+      { url },
+    ]);
+    const client = server.createClient({
+      cache: { store: new MemoryCacheStore(2) },
+    });
+    const run = (url: string) =>
+      client.runAppJson({
+        appId: "abc123xyz",
+        inputs: [{ key: "url", value: url }],
+      });
+
+    await run("a");
+    await run("b");
+    await run("a");
+    await run("c"); // evicts "b"
+    expect((await run("a")).cache?.hit).toBe(true);
+    expect((await run("b")).cache).toBeUndefined();
+  });
+
+  it("should persist entries with the file store", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "nextrows-cache-"));
+    try {
+      const server = new FakeNextrowsServer().app("abc123xyz", [{ a: 1 }]);
+      const options = { cache: { store: new FileCacheStore(directory) } };
+
+      await server.createClient(options).runAppTable(appRequest);
+      const cached = await server.createClient(options).runAppTable(appRequest);
+
+      expect(cached.cache?.hit).toBe(true);
+      expect(cached.data).toEqual({ columns: ["a"], tableData: [[1]] });
+      expect(server.requests).toHaveLength(1);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  markUnsent,
+  type Transport,
+  type TransportRequest,
+  type TransportResponse,
+} from "../transport";
+import { sha256, stableStringify } from "../utils/hash";
+import { type CacheEntry, type CacheStore, MemoryCacheStore } from "./stores";
+
+export {
+  type CacheEntry,
+  type CacheStore,
+  FileCacheStore,
+  MemoryCacheStore,
+} from "./stores";
+
+/**
+ * Per-call cache behaviour.
+ * - `"bypass"` - Neither read nor write the cache
+ * - `"refresh"` - Skip the cached response and store the new one
+ */
+export type CacheMode = "bypass" | "refresh";
+
+/**
+ * Options for the response cache.
+ */
+export interface CacheOptions {
+  /**
+   * Where responses are stored.
+   * @default new MemoryCacheStore()
+   */
+  store?: CacheStore;
+
+  /**
+   * How long a response is fresh, in milliseconds.
+   * @default 3600000 (1 hour)
+   */
+  ttl?: number;
+
+  /**
+   * How long after `ttl` a stale response is still returned, in
+   * milliseconds. The client refreshes stale responses in the background
+   * with a billed call, subject to the budget like any other.
+   * @default 0
+   */
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * Set on responses served from the cache.
+ */
+export interface CacheStatus {
+  /**
+   * Always `true`; responses that did not come from the cache have no
+   * `cache` field.
+   */
+  hit: true;
+
+  /**
+   * Whether the response is older than the TTL and is being refreshed.
+   */
+  stale: boolean;
+
+  /**
+   * Age of the cached response in milliseconds.
+   */
+  age: number;
+
+  /**
+   * The cache key of the request.
+   */
+  key: string;
+}
+
+const CACHED_PATHS = new Set([
+  "/v1/extract",
+  "/v1/apps/run/json",
+  "/v1/apps/run/table",
+]);
+
+/**
+ * Caches successful extract and app run responses.
+ *
+ * The cache key is a SHA-256 hash of the base URL, method, path,
+ * `Authorization` header and request body with object keys sorted, so
+ * clients of different accounts sharing a store do not see each other's
+ * responses. For extract requests the body contains the
+ * JSON Schema converted from a Zod schema, so a changed schema is a miss.
+ * Cached responses get a {@link CacheStatus} `cache` field.
+ */
+export class ResponseCache implements Transport {
+  private readonly store: CacheStore;
+  private readonly ttl: number;
+  private readonly staleWhileRevalidate: number;
+
+  /**
+   * @param transport - The transport sending requests that are not cached
+   * @param options - Store, TTL and stale-while-revalidate window
+   */
+  constructor(
+    private readonly transport: Transport,
+    options: CacheOptions = {},
+  ) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttl = options.ttl ?? 3_600_000;
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+  }
+
+  request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    return this.send<T>(request);
+  }
+
+  /**
+   * Return a transport using this cache with a per-call mode.
+   */
+  withMode(mode: CacheMode | undefined): Transport {
+    return mode ? { request: (request) => this.send(request, mode) } : this;
+  }
+
+  private async send<T>(
+    request: TransportRequest,
+    mode?: CacheMode,
+  ): Promise<TransportResponse<T>> {
+    if (mode === "bypass" || !CACHED_PATHS.has(request.path)) {
+      return this.transport.request<T>(request);
+    }
+
+    const authorization = Object.entries(request.headers ?? {}).find(
+      ([name]) => name.toLowerCase() === "authorization",
+    )?.[1];
+    const key = await sha256(
+      stableStringify({
+        baseUrl: request.baseUrl ?? "",
+        method: request.method,
+        path: request.path,
+        authorization: authorization ?? null,
+        body: request.body ?? null,
+      }),
+    );
+
+    if (mode !== "refresh") {
+      const entry = await this.store.get(key);
+      const now = Date.now();
+      if (entry && now < entry.expiresAt) {
+        return this.hit<T>(entry, key, false);
+      }
+      // The client refreshes stale responses with a `"refresh"` call
+      if (entry && now < entry.staleUntil) {
+        return this.hit<T>(entry, key, true);
+      }
+    }
+
+    return this.fetch<T>(key, request);
+  }
+
+  private async fetch<T>(
+    key: string,
+    request: TransportRequest,
+  ): Promise<TransportResponse<T>> {
+    const response = await this.transport.request<T>(request);
+    const data = response.data as { success?: unknown } | undefined;
+    if (
+      response.status >= 200 &&
+      response.status < 300 &&
+      data?.success !== false
+    ) {
+      const storedAt = Date.now();
+      await this.store.set(key, {
+        response: structuredClone(response) as TransportResponse,
+        storedAt,
+        expiresAt: storedAt + this.ttl,
+        staleUntil: storedAt + this.ttl + this.staleWhileRevalidate,
+      });
+    }
+    return response;
+  }
+
+  private hit<T>(
+    entry: CacheEntry,
+    key: string,
+    stale: boolean,
+  ): TransportResponse<T> {
+    const cache: CacheStatus = {
+      hit: true,
+      stale,
+      age: Date.now() - entry.storedAt,
+      key,
+    };
+    const { response } = entry;
+    return markUnsent({
+      ...response,
+      data: { ...structuredClone(response.data as object), cache } as T,
+    });
+  }
+}
@@ -0,0 +1,111 @@
+import type { TransportResponse } from "../transport";
+
+/**
+ * A cached response with its timestamps (milliseconds since the epoch).
+ */
+export interface CacheEntry {
+  /**
+   * The cached response.
+   */
+  response: TransportResponse;
+
+  /**
+   * When the response was stored.
+   */
+  storedAt: number;
+
+  /**
+   * Until when the response is fresh.
+   */
+  expiresAt: number;
+
+  /**
+   * Until when the response may be served stale while it is refreshed.
+   */
+  staleUntil: number;
+}
+
+/**
+ * Storage backend of the response cache.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined> | CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+}
+
+/**
+ * In-memory cache store evicting the least recently used entries.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  /**
+   * @param maxEntries - Maximum number of entries kept (default 500)
+   */
+  constructor(private readonly maxEntries = 500) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark the entry as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const [oldest] = this.entries.keys();
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Cache store keeping one JSON file per entry in a directory, so cached
+ * responses survive restarts. Node.js only.
+ */
+export class FileCacheStore implements CacheStore {
+  /**
+   * @param directory - Directory holding the cache files, created if needed
+   */
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const { readFile } = await import("node:fs/promises");
+    try {
+      return JSON.parse(await readFile(await this.file(key), "utf8"));
+    } catch {
+      // Missing or partially written files are cache misses
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const { mkdir, rename, writeFile } = await import("node:fs/promises");
+    const file = await this.file(key);
+    await mkdir(this.directory, { recursive: true });
+    // Write to a temporary file first so readers never see partial entries
+    const temporary = `${file}.${Date.now()}.tmp`;
+    await writeFile(temporary, JSON.stringify(entry), "utf8");
+    await rename(temporary, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    const { rm } = await import("node:fs/promises");
+    await rm(await this.file(key), { force: true });
+  }
+
+  private async file(key: string): Promise<string> {
+    const { join } = await import("node:path");
+    return join(this.directory, `${key}.json`);
+  }
+}
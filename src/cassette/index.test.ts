@@ -0,0 +1,143 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import nock from "nock";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod/v4";
+import { CassetteMissError, Nextrows } from "../client";
+
+const BASE_URL = "https://api.nextrows.com";
+const apiKey = "sk-nr-secret-key";
+
+describe("cassette", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "nextrows-cassette-"));
+    path = join(dir, "cassettes", "products.json");
+  });
+
+  afterEach(async () => {
+    nock.cleanAll();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const Product = z.array(z.object({ name: z.string() }));
+  const extractRequest = {
+    type: "url" as const,
+    data: ["https://example.com"],
+    prompt: "Extract products",
+    schema: Product,
+  };
+
+  it("should record requests with secrets scrubbed and replay them", async () => {
+    nock(BASE_URL)
+      .post("/v1/extract")
+      .reply(200, { success: true, data: [{ name: "A" }] })
+      .post("/v1/apps/run/json")
+      .reply(200, { success: true, data: [], runId: "run_1", token: "t0k3n" });
+
+    const recorder = new Nextrows({
+      apiKey,
+      cassette: { path, mode: "record", scrub: ["token"] },
+    });
+    await recorder.extract(extractRequest);
+    await recorder.runAppJson({ appId: "abc123xyz", inputs: [] });
+
+    const content = await readFile(path, "utf8");
+    expect(content).not.toContain(apiKey);
+    expect(content).not.toContain("t0k3n");
+    const file = JSON.parse(content);
+    expect(file.interactions).toHaveLength(2);
+    expect(file.interactions[0].request).toMatchObject({
+      method: "POST",
+      path: "/v1/extract",
+      headers: { Authorization: "[SCRUBBED]" },
+      body: { schema: { type: "array" } },
+    });
+
+    nock.disableNetConnect();
+    try {
+      const player = new Nextrows({
+        apiKey: "sk-nr-other",
+        cassette: { path },
+      });
+      const extracted = await player.extract(extractRequest);
+      const run = await player.runAppJson({ inputs: [], appId: "abc123xyz" });
+
+      expect(extracted.data).toEqual([{ name: "A" }]);
+      expect(run.runId).toBe("run_1");
+    } finally {
+      nock.enableNetConnect();
+    }
+  });
+
+  it("should fail on unrecorded requests in replay mode", async () => {
+    const client = new Nextrows({ apiKey, cassette: { path } });
+
+    const error = await client.getCredits().catch((e) => e);
+
+    expect(error).toBeInstanceOf(CassetteMissError);
+    expect(error.message).toContain("GET /v1/credits");
+  });
+
+  it("should replay recorded errors", async () => {
+    nock(BASE_URL)
+      .get("/v1/credits")
+      .reply(401, { success: false, error: "Invalid API key" });
+    await new Nextrows({ apiKey, cassette: { path, mode: "record" } })
+      .getCredits()
+      .catch(() => undefined);
+
+    const player = new Nextrows({ apiKey, cassette: { path } });
+
+    await expect(player.getCredits()).rejects.toMatchObject({
+      status: 401,
+      serverMessage: "Invalid API key",
+    });
+  });
+
+  it("should only send missing requests in record-missing mode", async () => {
+    const scope = nock(BASE_URL)
+      .get("/v1/credits")
+      .once()
+      .reply(200, { success: true, data: { credits: 5 } })
+      .post("/v1/apps/run/table")
+      .once()
+      .reply(200, { success: true, data: { columns: [], tableData: [] } });
+
+    const first = new Nextrows({
+      apiKey,
+      cassette: { path, mode: "record-missing" },
+    });
+    await first.getCredits();
+
+    const second = new Nextrows({
+      apiKey,
+      cassette: { path, mode: "record-missing" },
+    });
+    expect((await second.getCredits()).data?.credits).toBe(5);
+    await second.runAppTable({ appId: "abc123xyz", inputs: [] });
+
+    expect(scope.isDone()).toBe(true);
+    const file = JSON.parse(await readFile(path, "utf8"));
+    expect(file.interactions).toHaveLength(2);
+  });
+
+  it("should neither read nor write the cassette in passthrough mode", async () => {
+    nock(BASE_URL)
+      .get("/v1/credits")
+      .reply(200, { success: true, data: { credits: 1 } });
+
+    const client = new Nextrows({
+      apiKey,
+      cassette: { path, mode: "passthrough" },
+    });
+    await client.getCredits();
+
+    await expect(readFile(path, "utf8")).rejects.toMatchObject({
+      code: "ENOENT",
+    });
+  });
+});
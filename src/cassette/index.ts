@@ -0,0 +1,225 @@
+import { CassetteMissError } from "../errors";
+import {
+  markUnsent,
+  type Transport,
+  type TransportMethod,
+  type TransportRequest,
+  type TransportResponse,
+} from "../transport";
+import { stableStringify } from "../utils/hash";
+
+/**
+ * How a cassette handles requests.
+ * - `"record"` - Send every request and record it, replacing the cassette
+ * - `"replay"` - Answer from the cassette only; unrecorded requests fail
+ *   with `CassetteMissError`
+ * - `"record-missing"` - Replay recorded requests and record new ones
+ * - `"passthrough"` - Send every request without reading or writing the
+ *   cassette
+ */
+export type CassetteMode =
+  | "record"
+  | "replay"
+  | "record-missing"
+  | "passthrough";
+
+/**
+ * Options for {@link Cassette}.
+ */
+export interface CassetteOptions {
+  /**
+   * Path of the cassette file (JSON). Node.js only.
+   */
+  path: string;
+
+  /**
+   * How requests are handled.
+   * @default "replay"
+   */
+  mode?: CassetteMode;
+
+  /**
+   * Names of headers and body fields to scrub before recording, in
+   * addition to `Authorization`. Body fields are matched by name at any
+   * depth, in both requests and responses. Scrubbed request fields are
+   * ignored when matching.
+   */
+  scrub?: string[];
+}
+
+/**
+ * A request recorded in a cassette.
+ */
+export interface CassetteRequest {
+  method: TransportMethod;
+  path: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * A request/response pair recorded in a cassette.
+ */
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: TransportResponse;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+const SCRUBBED = "[SCRUBBED]";
+
+/**
+ * Records traffic to a cassette file and replays it, in the style of VCR.
+ *
+ * Requests are matched on method, path and body. Bodies are compared after
+ * scrubbing, with object keys sorted, so key order does not matter; the
+ * `schema` of extract requests is compared as the JSON Schema sent to the
+ * API. Identical requests are replayed in the order they were recorded.
+ *
+ * Usually enabled through the client's `cassette` option.
+ *
+ * @example
+ * ```typescript
+ * const client = new Nextrows({
+ *   apiKey: process.env.NEXTROWS_API_KEY ?? "sk-nr-replay",
+ *   cassette: {
+ *     path: "test/cassettes/products.json",
+ *     mode: process.env.CI ? "replay" : "record-missing",
+ *   },
+ * });
+ * ```
+ */
+export class Cassette implements Transport {
+  private readonly mode: CassetteMode;
+  private readonly scrubbed: Set<string>;
+  private interactions: Promise<CassetteInteraction[]> | undefined;
+  private readonly played = new Map<string, number>();
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param transport - The transport sending requests that are not replayed
+   * @param options - Cassette path, mode and fields to scrub
+   */
+  constructor(
+    private readonly transport: Transport,
+    private readonly options: CassetteOptions,
+  ) {
+    this.mode = options.mode ?? "replay";
+    this.scrubbed = new Set(
+      ["authorization", ...(options.scrub ?? [])].map((name) =>
+        name.toLowerCase(),
+      ),
+    );
+  }
+
+  async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    if (this.mode === "passthrough") {
+      return this.transport.request<T>(request);
+    }
+
+    const recorded = this.scrubRequest(request);
+    const key = this.matchKey(recorded);
+    const interactions = await this.load();
+
+    if (this.mode !== "record") {
+      const matches = interactions.filter(
+        (interaction) => this.matchKey(interaction.request) === key,
+      );
+      if (matches.length > 0) {
+        const played = this.played.get(key) ?? 0;
+        this.played.set(key, played + 1);
+        const { response } = matches[Math.min(played, matches.length - 1)];
+        return markUnsent(structuredClone(response) as TransportResponse<T>);
+      }
+      if (this.mode === "replay") {
+        throw new CassetteMissError(
+          `No recorded response for ${request.method} ${request.path} in cassette ${this.options.path}`,
+          { path: request.path },
+        );
+      }
+    }
+
+    const response = await this.transport.request<T>(request);
+    interactions.push({
+      request: recorded,
+      response: this.scrub(response) as TransportResponse,
+    });
+    await this.save(interactions);
+    return response;
+  }
+
+  /**
+   * Wait until all recorded interactions are written to the cassette file.
+   */
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  private load(): Promise<CassetteInteraction[]> {
+    this.interactions ??= (async () => {
+      if (this.mode === "record") {
+        return [];
+      }
+      const { readFile } = await import("node:fs/promises");
+      try {
+        const file = JSON.parse(
+          await readFile(this.options.path, "utf8"),
+        ) as CassetteFile;
+        return file.interactions;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return [];
+        }
+        throw error;
+      }
+    })();
+    return this.interactions;
+  }
+
+  private save(interactions: CassetteInteraction[]): Promise<void> {
+    const { path } = this.options;
+    this.writing = this.writing.then(async () => {
+      const { mkdir, writeFile } = await import("node:fs/promises");
+      const { dirname } = await import("node:path");
+      await mkdir(dirname(path), { recursive: true });
+      const file: CassetteFile = { version: 1, interactions };
+      await writeFile(path, `${JSON.stringify(file, null, 2)}\n`, "utf8");
+    });
+    return this.writing;
+  }
+
+  private scrubRequest(request: TransportRequest): CassetteRequest {
+    return this.scrub({
+      method: request.method,
+      path: request.path,
+      headers: request.headers ?? {},
+      ...(request.body !== undefined ? { body: request.body } : {}),
+    }) as CassetteRequest;
+  }
+
+  private matchKey(request: CassetteRequest): string {
+    return `${request.method} ${request.path} ${stableStringify(request.body ?? null)}`;
+  }
+
+  /**
+   * Copy a value, replacing scrubbed fields at any depth.
+   */
+  private scrub(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.scrub(item));
+    }
+    if (value === null || typeof value !== "object") {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [
+        name,
+        this.scrubbed.has(name.toLowerCase()) ? SCRUBBED : this.scrub(item),
+      ]),
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { type Row, type TableData, toCsv, toNdjson } from "../table";
+
+/**
+ * Output formats supported by the command-line tool.
+ * - `"json"` - Pretty-printed JSON
+ * - `"csv"` - Comma-separated values with a header row
+ * - `"ndjson"` - One JSON value per line
+ */
+export type OutputFormat = "json" | "csv" | "ndjson";
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = [
+  "json",
+  "csv",
+  "ndjson",
+];
+
+function isRows(value: unknown): value is Row[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (item) =>
+        item !== null && typeof item === "object" && !Array.isArray(item),
+    )
+  );
+}
+
+/**
+ * Serialize a value in the requested output format.
+ *
+ * @param value - The value printed as JSON
+ * @param format - The output format
+ * @param table - Table data used for CSV and NDJSON output instead of `value`
+ * @throws {Error} When CSV output is requested for data that is not tabular
+ */
+export function formatOutput(
+  value: unknown,
+  format: OutputFormat,
+  table?: TableData<unknown>,
+): string {
+  const tabular = table ?? (isRows(value) ? value : undefined);
+  switch (format) {
+    case "csv":
+      if (!tabular) {
+        throw new Error("CSV output requires an array of objects");
+      }
+      return toCsv(tabular);
+    case "ndjson":
+      return tabular
+        ? toNdjson(tabular)
+        : (Array.isArray(value) ? value : [value])
+            .map((item) => `${JSON.stringify(item)}\n`)
+            .join("");
+    default:
+      return `${JSON.stringify(value, null, 2)}\n`;
+  }
+}
@@ -0,0 +1,359 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import nock from "nock";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EXIT_CODES, parseInput, run } from "./run";
+
+const BASE_URL = "https://api.nextrows.com";
+
+describe("nextrows CLI", () => {
+  const apiKey = "sk-nr-test-api-key";
+  let stdout: string;
+  let stderr: string;
+
+  const cli = (...argv: string[]) =>
+    run(argv, {
+      stdout: {
+        write: (chunk: string) => {
+          stdout += chunk;
+        },
+      },
+      stderr: {
+        write: (chunk: string) => {
+          stderr += chunk;
+        },
+      },
+      env: { NEXTROWS_API_KEY: apiKey },
+    });
+
+  beforeEach(() => {
+    stdout = "";
+    stderr = "";
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it("should print credits as pretty JSON", async () => {
+    nock(BASE_URL)
+      .get("/v1/credits")
+      .matchHeader("Authorization", `Bearer ${apiKey}`)
+      .reply(200, { success: true, data: { credits: 42 } });
+
+    expect(await cli("credits")).toBe(EXIT_CODES.success);
+    expect(stdout).toBe('{\n  "credits": 42\n}\n');
+  });
+
+  it("should prefer the --api-key flag over the environment", async () => {
+    const scope = nock(BASE_URL)
+      .get("/v1/credits")
+      .matchHeader("Authorization", "Bearer sk-nr-flag-key")
+      .reply(200, { success: true, data: { credits: 1 } });
+
+    expect(await cli("credits", "--api-key", "sk-nr-flag-key")).toBe(0);
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it("should use the profile selected with --profile", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "nextrows-cli-"));
+    try {
+      const configFile = join(directory, "config.json");
+      await writeFile(
+        configFile,
+        JSON.stringify({
+          staging: {
+            apiKey: "sk-nr-staging",
+            baseUrl: "https://staging.nextrows.test",
+          },
+        }),
+      );
+      const scope = nock("https://staging.nextrows.test")
+        .get("/v1/credits")
+        .matchHeader("Authorization", "Bearer sk-nr-staging")
+        .reply(200, { success: true, data: { credits: 3 } });
+      const env = { NEXTROWS_API_KEY: apiKey, NEXTROWS_CONFIG: configFile };
+      const io = {
+        stdout: { write: () => true },
+        stderr: {
+          write: (chunk: string) => {
+            stderr += chunk;
+          },
+        },
+        env,
+      };
+
+      expect(await run(["credits", "--profile", "staging"], io)).toBe(0);
+      expect(scope.isDone()).toBe(true);
+
+      expect(await run(["credits", "--profile", "prod"], io)).toBe(
+        EXIT_CODES.usage,
+      );
+      expect(stderr).toContain('Profile "prod" (from the profile option)');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should run an app with typed inputs and print CSV", async () => {
+    nock(BASE_URL)
+      .post("/v1/apps/run/json", {
+        appId: "abc123xyz",
+        inputs: [
+          { key: "url", value: "https://example.com" },
+          { key: "maxItems", value: 10 },
+        ],
+      })
+      .reply(200, {
+        success: true,
+        data: [
+          { Name: "Product A", Price: 29.99 },
+          { Name: 'Product "B", large', Price: null },
+        ],
+      });
+
+    const code = await cli(
+      "run",
+      "abc123xyz",
+      "--input",
+      "url=https://example.com",
+      "--input",
+      "maxItems=10",
+      "--format",
+      "csv",
+    );
+
+    expect(code).toBe(EXIT_CODES.success);
+    expect(stdout).toBe(
+      'Name,Price\r\nProduct A,29.99\r\n"Product ""B"", large",\r\n',
+    );
+  });
+
+  it("should print table output as NDJSON", async () => {
+    nock(BASE_URL)
+      .post("/v1/apps/run/table")
+      .reply(200, {
+        success: true,
+        data: { columns: ["Name", "Price"], tableData: [["Product A", 29.99]] },
+      });
+
+    const code = await cli(
+      "run",
+      "abc123xyz",
+      "--mode",
+      "table",
+      "--format",
+      "ndjson",
+    );
+
+    expect(code).toBe(EXIT_CODES.success);
+    expect(stdout).toBe('{"Name":"Product A","Price":29.99}\n');
+  });
+
+  it("should extract from args and files with a JSON schema", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "nextrows-cli-"));
+    try {
+      const urls = join(dir, "urls.txt");
+      const schema = join(dir, "schema.json");
+      await writeFile(urls, "https://example.com/b\n# comment\n\n");
+      await writeFile(schema, JSON.stringify({ type: "array" }));
+      const scope = nock(BASE_URL)
+        .post("/v1/extract", {
+          type: "url",
+          data: ["https://example.com/a", "https://example.com/b"],
+          prompt: "Extract titles",
+          schema: { type: "array" },
+        })
+        .reply(200, { success: true, data: [{ title: "A" }, { title: "B" }] });
+
+      const code = await cli(
+        "extract",
+        "https://example.com/a",
+        "--file",
+        urls,
+        "--prompt",
+        "Extract titles",
+        "--schema",
+        schema,
+        "--format",
+        "ndjson",
+      );
+
+      expect(code).toBe(EXIT_CODES.success);
+      expect(scope.isDone()).toBe(true);
+      expect(stdout).toBe('{"title":"A"}\n{"title":"B"}\n');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should extract any number of sources in batches", async () => {
+    const urls = Array.from(
+      { length: 25 },
+      (_, index) => `https://example.com/${index}`,
+    );
+    nock(BASE_URL)
+      .post("/v1/extract", (body) => body.data.length === 20)
+      .reply(200, { success: true, data: [{ batch: 1 }] })
+      .post("/v1/extract", (body) => body.data.length === 5)
+      .reply(402, { success: false, error: "Out of credits" });
+
+    const code = await cli("extract", ...urls, "--format", "ndjson");
+
+    expect(code).toBe(EXIT_CODES.insufficientCredits);
+    expect(stdout).toBe('{"batch":1}\n');
+    expect(stderr).toContain("Batch 2 of 2 (5 sources) failed");
+  });
+
+  it.each([
+    [401, EXIT_CODES.authentication],
+    [402, EXIT_CODES.insufficientCredits],
+    [404, EXIT_CODES.notFound],
+    [400, EXIT_CODES.error],
+  ])("should exit on HTTP %i with code %i", async (status, exitCode) => {
+    nock(BASE_URL)
+      .post("/v1/apps/run/json")
+      .reply(status, { success: false, error: "Nope" });
+
+    expect(await cli("run", "abc123xyz")).toBe(exitCode);
+    expect(stderr).toContain("Nope");
+  });
+
+  it("should record runs with --history and list them", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "nextrows-cli-"));
+    try {
+      const history = join(directory, "history.jsonl");
+      nock(BASE_URL)
+        .post("/v1/apps/run/json")
+        .reply(200, { success: true, data: [{ a: 1 }], runId: "run_1" })
+        .post("/v1/apps/run/json")
+        .reply(404, { success: false, error: "App not found" });
+
+      await cli("run", "abc123xyz", "--history", history);
+      await cli("run", "missing", "--history", history);
+      stdout = "";
+
+      expect(
+        await cli("history", "--history", history, "--format", "ndjson"),
+      ).toBe(0);
+      expect(
+        stdout
+          .trim()
+          .split("\n")
+          .map((line) => JSON.parse(line)),
+      ).toEqual([
+        expect.objectContaining({ appId: "missing", success: false }),
+        expect.objectContaining({ appId: "abc123xyz", runId: "run_1" }),
+      ]);
+
+      stdout = "";
+      await cli("history", "--history", history, "--failed", "--since", "1h");
+      expect(JSON.parse(stdout)).toMatchObject([
+        { appId: "missing", error: { name: "AppNotFoundError", status: 404 } },
+      ]);
+      expect(
+        await cli("history", "--history", history, "--since", "tuesday"),
+      ).toBe(EXIT_CODES.usage);
+      expect(await cli("history")).toBe(EXIT_CODES.usage);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should fail when a successful response reports an error", async () => {
+    nock(BASE_URL)
+      .post("/v1/apps/run/json")
+      .reply(200, { success: false, error: "App timed out" });
+
+    expect(await cli("run", "abc123xyz")).toBe(EXIT_CODES.error);
+    expect(stdout).toBe("");
+    expect(stderr).toBe("Error: App timed out\n");
+  });
+
+  it("should exit with a usage error without an API key", async () => {
+    const code = await run(["credits"], {
+      stdout: { write: () => true },
+      stderr: {
+        write: (chunk: string) => {
+          stderr += chunk;
+        },
+      },
+      env: {},
+    });
+
+    expect(code).toBe(EXIT_CODES.usage);
+    expect(stderr).toContain("NEXTROWS_API_KEY");
+  });
+
+  it("should report thrown non-error values", async () => {
+    const code = await run(["--help"], {
+      stdout: {
+        write: () => {
+          throw undefined;
+        },
+      },
+      stderr: {
+        write: (chunk: string) => {
+          stderr += chunk;
+        },
+      },
+      env: {},
+    });
+
+    expect(code).toBe(EXIT_CODES.error);
+    expect(stderr).toBe("Error: undefined\n");
+  });
+
+  it("should reject unknown commands and options", async () => {
+    expect(await cli("delete")).toBe(EXIT_CODES.usage);
+    expect(await cli("credits", "--verbose")).toBe(EXIT_CODES.usage);
+  });
+
+  it("should generate types and check them with --check", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "nextrows-cli-"));
+    try {
+      const sample = join(directory, "product.json");
+      const out = join(directory, "generated", "product.ts");
+      await writeFile(
+        sample,
+        JSON.stringify({ success: true, data: [{ name: "A", price: 1 }] }),
+      );
+
+      expect(await cli("codegen", sample, "--out", out)).toBe(0);
+      expect(stdout).toBe(`Wrote ${out}\n`);
+      expect(await cli("codegen", sample, "--out", out, "--check")).toBe(0);
+
+      await writeFile(
+        sample,
+        JSON.stringify({ success: true, data: [{ name: "A", price: 1.5 }] }),
+      );
+      expect(await cli("codegen", sample, "--out", out, "--check")).toBe(
+        EXIT_CODES.error,
+      );
+      expect(stderr).toContain(`${out} is out of date`);
+
+      stdout = "";
+      expect(await cli("codegen", sample, "--name", "ProductRow")).toBe(0);
+      expect(stdout).toContain("export interface ProductRow {");
+      expect(stdout).toContain("  price: number;");
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should require --out for --check", async () => {
+    expect(await cli("codegen", "a.json", "--check")).toBe(EXIT_CODES.usage);
+    expect(await cli("codegen")).toBe(EXIT_CODES.usage);
+  });
+
+  describe("parseInput", () => {
+    it("should convert numbers and booleans but keep other strings", () => {
+      expect(parseInput("maxItems=10")).toEqual({ key: "maxItems", value: 10 });
+      expect(parseInput("deep=true")).toEqual({ key: "deep", value: true });
+      expect(parseInput("zip=01234")).toEqual({ key: "zip", value: "01234" });
+      expect(parseInput("q=a=b")).toEqual({ key: "q", value: "a=b" });
+    });
+  });
+});
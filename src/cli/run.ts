@@ -0,0 +1,418 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { parseArgs } from "node:util";
+import type { AppInput, AppInputValue } from "../api/apps";
+import type { ExtractType, JsonSchema } from "../api/extract";
+import { Nextrows } from "../client";
+import { type CodegenInputFormat, generateTypesFromFiles } from "../codegen";
+import { validateApiKey } from "../config";
+import {
+  AppNotFoundError,
+  AuthenticationError,
+  ConfigurationError,
+  InsufficientCreditsError,
+  NextrowsError,
+} from "../errors";
+import { historyStoreFromPath } from "../history";
+import type { TableData } from "../table";
+import { formatOutput, OUTPUT_FORMATS, type OutputFormat } from "./output";
+
+/**
+ * Exit codes returned by the command-line tool.
+ */
+export const EXIT_CODES = {
+  success: 0,
+  error: 1,
+  usage: 2,
+  authentication: 3,
+  insufficientCredits: 4,
+  notFound: 5,
+} as const;
+
+/**
+ * Streams and environment used by {@link run}, injectable for testing.
+ */
+export interface CliIO {
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+  env: Record<string, string | undefined>;
+}
+
+const USAGE = `Usage: nextrows <command> [options]
+
+Commands:
+  extract [sources...]      Extract structured data from URLs or text
+  run <appId>               Run a published app
+  credits                   Show the remaining credit balance
+  history                   List recorded calls, newest first
+  codegen <inputs...>       Generate TypeScript types and Zod schemas from
+                            JSON Schemas, Zod modules or sample app output
+
+Global options:
+  --api-key <key>           API key (default: $NEXTROWS_API_KEY)
+  --base-url <url>          API base URL (default: $NEXTROWS_BASE_URL)
+  --profile <name>          Profile of ~/.config/nextrows/config.json to use
+                            (default: $NEXTROWS_PROFILE, else "default")
+  --history <path>          Record extract and run calls to a JSONL file, or
+                            a SQLite database for .db and .sqlite files
+                            (default: $NEXTROWS_HISTORY)
+  --format <format>         Output format: json, csv or ndjson (default: json)
+  -h, --help                Show this help
+
+extract options:
+  --type <type>             Source type: url or text (default: url)
+  --file <path>             Read sources from a file (repeatable). For urls,
+                            one URL per line; for text, the whole file
+  --prompt <prompt>         What to extract
+  --schema <path>           JSON Schema file describing the output
+
+run options:
+  --input <key=value>       App input (repeatable)
+  --mode <mode>             Output mode: json or table (default: json)
+
+history options:
+  --app <appId>             Only calls of this app
+  --since <time>            Only calls since a date (2026-10-13T09:00Z) or
+                            for a duration (30m, 24h, 7d)
+  --until <time>            Only calls before a date or duration ago
+  --failed                  Only failed calls
+  --limit <n>               Show at most n calls (default: 50)
+
+codegen options:
+  --out <path>              File to write (default: print to stdout)
+  --name <name>             Type name for sample output or a JSON Schema
+                            (default: from the file name)
+  --from <format>           Input format: json-schema, zod or samples
+                            (default: detected)
+  --check                   Fail if --out differs from the generated output
+`;
+
+/**
+ * Error raised for invalid command-line usage.
+ */
+class UsageError extends Error {}
+
+const OPTIONS = {
+  "api-key": { type: "string" },
+  "base-url": { type: "string" },
+  profile: { type: "string" },
+  history: { type: "string" },
+  format: { type: "string", default: "json" },
+  help: { type: "boolean", short: "h" },
+  type: { type: "string", default: "url" },
+  file: { type: "string", multiple: true },
+  prompt: { type: "string" },
+  schema: { type: "string" },
+  input: { type: "string", multiple: true },
+  mode: { type: "string", default: "json" },
+  out: { type: "string" },
+  name: { type: "string" },
+  from: { type: "string" },
+  check: { type: "boolean" },
+  app: { type: "string" },
+  since: { type: "string" },
+  until: { type: "string" },
+  failed: { type: "boolean" },
+  limit: { type: "string", default: "50" },
+} as const;
+
+type ParsedValues = ReturnType<
+  typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>
+>["values"];
+
+function oneOf<T extends string>(
+  name: string,
+  value: string,
+  allowed: readonly T[],
+): T {
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(
+      `Invalid --${name} "${value}" (expected ${allowed.join(", ")})`,
+    );
+  }
+  return value as T;
+}
+
+/**
+ * Parse an app input of the form `key=value`. Numeric and boolean values are
+ * converted unless the conversion would change their text (e.g. "007").
+ */
+export function parseInput(text: string): AppInput {
+  const separator = text.indexOf("=");
+  if (separator <= 0) {
+    throw new UsageError(`Invalid --input "${text}" (expected key=value)`);
+  }
+  const key = text.slice(0, separator);
+  const raw = text.slice(separator + 1);
+  let value: AppInputValue = raw;
+  if (raw === "true" || raw === "false") {
+    value = raw === "true";
+  } else if (raw.trim() !== "" && String(Number(raw)) === raw) {
+    value = Number(raw);
+  }
+  return { key, value };
+}
+
+async function readSources(
+  type: ExtractType,
+  args: string[],
+  files: string[] = [],
+): Promise<string[]> {
+  const sources = [...args];
+  for (const file of files) {
+    const content = await readFile(file, "utf8");
+    if (type === "url") {
+      sources.push(
+        ...content
+          .split(/\r?\n/)
+          .map((line) => line.trim())
+          .filter((line) => line && !line.startsWith("#")),
+      );
+    } else {
+      sources.push(content);
+    }
+  }
+  if (sources.length === 0) {
+    throw new UsageError("extract requires at least one source or --file");
+  }
+  return sources;
+}
+
+async function readSchema(path: string): Promise<JsonSchema> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as JsonSchema;
+  } catch (error) {
+    throw new UsageError(
+      `Could not read schema ${path}: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Parse a `--since` or `--until` value: a date, or a duration before now
+ * such as `30m`, `24h` or `7d`.
+ */
+export function parseTime(name: string, value: string): Date {
+  const duration = /^(\d+)([smhdw])$/.exec(value.trim());
+  if (duration) {
+    const unit = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 }[
+      duration[2] as "s" | "m" | "h" | "d" | "w"
+    ];
+    return new Date(Date.now() - Number(duration[1]) * unit * 1000);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new UsageError(
+      `Invalid --${name} "${value}" (expected a date or a duration like 7d)`,
+    );
+  }
+  return date;
+}
+
+function historyPath(values: ParsedValues, env: CliIO["env"]) {
+  return values.history ?? (env.NEXTROWS_HISTORY || undefined);
+}
+
+function createClient(
+  values: ParsedValues,
+  env: CliIO["env"],
+): Promise<Nextrows> {
+  const apiKey = values["api-key"];
+  const history = historyPath(values, env);
+  return Nextrows.fromEnv({
+    apiKey:
+      apiKey === undefined ? undefined : validateApiKey(apiKey, "--api-key"),
+    baseUrl: values["base-url"],
+    profile: values.profile,
+    env,
+    history: history ? { store: historyStoreFromPath(history) } : undefined,
+  });
+}
+
+async function codegen(
+  inputs: string[],
+  values: ParsedValues,
+  io: CliIO,
+): Promise<void> {
+  if (inputs.length === 0) {
+    throw new UsageError("codegen requires at least one input file");
+  }
+  const { out, check } = values;
+  if (check && !out) {
+    throw new UsageError("--check requires --out");
+  }
+  const source = await generateTypesFromFiles(inputs, {
+    name: values.name,
+    from: values.from
+      ? oneOf<CodegenInputFormat>("from", values.from, [
+          "json-schema",
+          "zod",
+          "samples",
+        ])
+      : undefined,
+  });
+
+  if (!out) {
+    io.stdout.write(source);
+  } else if (check) {
+    const current = await readFile(out, "utf8").catch(() => undefined);
+    if (current !== source) {
+      throw new Error(
+        `${out} is out of date. Run the same command without --check to update it`,
+      );
+    }
+    io.stdout.write(`${out} is up to date\n`);
+  } else {
+    await mkdir(dirname(out), { recursive: true });
+    await writeFile(out, source, "utf8");
+    io.stdout.write(`Wrote ${out}\n`);
+  }
+}
+
+async function execute(
+  command: string | undefined,
+  args: string[],
+  values: ParsedValues,
+  io: CliIO,
+): Promise<number> {
+  const format = oneOf<OutputFormat>("format", values.format, OUTPUT_FORMATS);
+  const print = (value: unknown, table?: TableData<unknown>) =>
+    io.stdout.write(formatOutput(value, format, table));
+  // A 2xx response may still report a failure in its body
+  const printResult = (
+    result: { success: boolean; data?: unknown; error?: string },
+    table?: TableData<unknown>,
+  ) => {
+    if (!result.success) {
+      io.stderr.write(`Error: ${result.error ?? "The request failed"}\n`);
+      return EXIT_CODES.error;
+    }
+    print(result.data, table);
+    return EXIT_CODES.success;
+  };
+
+  switch (command) {
+    case "extract": {
+      const type = oneOf<ExtractType>("type", values.type, ["url", "text"]);
+      const client = await createClient(values, io.env);
+      // Batched, so that any number of sources can be passed
+      const result = await client.extractMany({
+        type,
+        data: await readSources(type, args, values.file),
+        prompt: values.prompt,
+        schema: values.schema ? await readSchema(values.schema) : undefined,
+      });
+      print(result.data.map((record) => record.data));
+      for (const { batchIndex, sources, error } of result.errors) {
+        io.stderr.write(
+          `Error: Batch ${batchIndex + 1} of ${result.batchCount} (${sources.length} sources) failed: ${error.message}\n`,
+        );
+      }
+      const [failure] = result.errors;
+      return failure ? exitCodeFor(failure.error) : EXIT_CODES.success;
+    }
+    case "run": {
+      const [appId] = args;
+      if (!appId) {
+        throw new UsageError("run requires an <appId>");
+      }
+      const mode = oneOf("mode", values.mode, ["json", "table"] as const);
+      const inputs = (values.input ?? []).map(parseInput);
+      const client = await createClient(values, io.env);
+      if (mode === "table") {
+        const result = await client.runAppTable({ appId, inputs });
+        return printResult(result, result.data);
+      }
+      return printResult(await client.runAppJson({ appId, inputs }));
+    }
+    case "codegen": {
+      await codegen(args, values, io);
+      return EXIT_CODES.success;
+    }
+    case "history": {
+      const path = historyPath(values, io.env);
+      if (!path) {
+        throw new UsageError("history requires --history or NEXTROWS_HISTORY");
+      }
+      const limit = Number(values.limit);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new UsageError(
+          `Invalid --limit "${values.limit}" (expected a positive integer)`,
+        );
+      }
+      const records = await historyStoreFromPath(path).list({
+        appId: values.app,
+        since: values.since ? parseTime("since", values.since) : undefined,
+        until: values.until ? parseTime("until", values.until) : undefined,
+        failedOnly: values.failed,
+        limit,
+      });
+      print(records);
+      return EXIT_CODES.success;
+    }
+    case "credits": {
+      const client = await createClient(values, io.env);
+      return printResult(await client.getCredits());
+    }
+    default:
+      throw new UsageError(
+        command ? `Unknown command "${command}"` : "Missing command",
+      );
+  }
+}
+
+function exitCodeFor(error: NextrowsError): number {
+  if (error instanceof AuthenticationError) return EXIT_CODES.authentication;
+  if (error instanceof InsufficientCreditsError) {
+    return EXIT_CODES.insufficientCredits;
+  }
+  if (error instanceof AppNotFoundError) return EXIT_CODES.notFound;
+  if (error instanceof ConfigurationError) return EXIT_CODES.usage;
+  return EXIT_CODES.error;
+}
+
+/**
+ * Run the command-line tool.
+ *
+ * @param argv - Command-line arguments, without the node and script paths
+ * @param io - Output streams and environment
+ * @returns Promise resolving to the process exit code
+ */
+export async function run(
+  argv: string[],
+  io: CliIO = {
+    stdout: process.stdout,
+    stderr: process.stderr,
+    env: process.env,
+  },
+): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      options: OPTIONS,
+      allowPositionals: true,
+    });
+    if (values.help) {
+      io.stdout.write(USAGE);
+      return EXIT_CODES.success;
+    }
+    const [command, ...args] = positionals;
+    return await execute(command, args, values, io);
+  } catch (error) {
+    if (error instanceof NextrowsError) {
+      io.stderr.write(`Error: ${error.message}\n`);
+      return exitCodeFor(error);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    io.stderr.write(`Error: ${message}\n`);
+    if (
+      error instanceof UsageError ||
+      (error instanceof Error &&
+        String((error as { code?: unknown }).code).startsWith("ERR_PARSE_ARGS"))
+    ) {
+      io.stderr.write(`Run "nextrows --help" for usage.\n`);
+      return EXIT_CODES.usage;
+    }
+    return EXIT_CODES.error;
+  }
+}
@@ -1,12 +1,42 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import nock from "nock";
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+  vi,
+} from "vitest";
 import { z } from "zod/v4";
 import type {
+  AppBatchProgress,
   ExtractResponse,
   RunAppJsonResponse,
   RunAppTableResponse,
+  StandardSchemaV1,
+} from "./index";
+import { extractMany, runAppBatch } from "../batch";
+import { FakeNextrowsServer } from "../testing";
+import {
+  AbortError,
+  AppNotFoundError,
+  AuthenticationError,
+  InsufficientCreditsError,
+  NetworkError,
+  Nextrows,
+  NextrowsError,
+  RowValidationError,
+  registerSchemaConverter,
+  SchemaConversionError,
+  SchemaValidationError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
 } from "./index";
-import { Nextrows } from "./index";
 
 const BASE_URL = "https://api.nextrows.com";
 
@@ -173,6 +203,116 @@ describe("Nextrows", () => {
       ]);
     });
 
+    describe("schema validation", () => {
+      const Product = z.object({ name: z.string(), price: z.number() });
+
+      it("should infer and return parsed data from a Zod schema", async () => {
+        nock(BASE_URL)
+          .post("/v1/extract")
+          .reply(200, {
+            success: true,
+            data: [{ name: "Product 1", price: 10 }],
+          });
+
+        const response = await client.extract({
+          type: "url",
+          data: ["https://example.com"],
+          schema: z.array(Product),
+        });
+
+        expectTypeOf(response.data).toEqualTypeOf<
+          { name: string; price: number }[] | undefined
+        >();
+        expect(response.data).toEqual([{ name: "Product 1", price: 10 }]);
+      });
+
+      it("should throw SchemaValidationError in strict mode", async () => {
+        const data = [{ name: "Product 1", price: "$10.00" }];
+        nock(BASE_URL).post("/v1/extract").reply(200, { success: true, data });
+
+        const error = await client
+          .extract({
+            type: "url",
+            data: ["https://example.com"],
+            schema: z.array(Product),
+          })
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(SchemaValidationError);
+        expect(error).toMatchObject({
+          data,
+          issues: [expect.objectContaining({ path: [0, "price"] })],
+          path: "/v1/extract",
+        });
+      });
+
+      it("should warn and return raw data in warn mode", async () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const data = [{ name: "Product 1" }];
+        nock(BASE_URL)
+          .post("/v1/extract")
+          .times(2)
+          .reply(200, { success: true, data });
+        const request = {
+          type: "url" as const,
+          data: ["https://example.com"],
+          schema: z.array(Product),
+        };
+        const warnings: SchemaValidationError[] = [];
+
+        const response = await client.extract(request, {
+          validate: "warn",
+          onWarning: (error) => warnings.push(error),
+        });
+        await client.extract(request, { validate: "warn" });
+
+        expect(response.data).toEqual(data);
+        expect(warnings).toEqual([expect.any(SchemaValidationError)]);
+        expect(warnings[0].issues).toEqual([
+          expect.objectContaining({ path: [0, "price"] }),
+        ]);
+        expect(warn).not.toHaveBeenCalled();
+        warn.mockRestore();
+      });
+
+      it("should log warnings with the client logger", async () => {
+        const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+        nock(BASE_URL)
+          .post("/v1/extract")
+          .reply(200, { success: true, data: [{ name: "Product 1" }] });
+
+        await new Nextrows({ apiKey, logging: { logger } }).extract(
+          {
+            type: "url",
+            data: ["https://example.com"],
+            schema: z.array(Product),
+          },
+          { validate: "warn" },
+        );
+
+        expect(logger.warn).toHaveBeenCalledWith(
+          expect.objectContaining({ path: "/v1/extract" }),
+          expect.stringContaining("Extracted data does not match the schema"),
+        );
+      });
+
+      it("should skip validation when validate is off", async () => {
+        const data = { unexpected: true };
+        nock(BASE_URL).post("/v1/extract").reply(200, { success: true, data });
+
+        const response = await client.extract(
+          {
+            type: "url",
+            data: ["https://example.com"],
+            schema: z.array(Product),
+          },
+          { validate: "off" },
+        );
+
+        expect(response.data).toEqual(data);
+      });
+    });
+
     it("should handle API errors", async () => {
       nock(BASE_URL).post("/v1/extract").reply(401, {
         error: "Unauthorized",
@@ -185,7 +325,106 @@ describe("Nextrows", () => {
           data: ["https://example.com"],
           prompt: "Extract data",
         }),
-      ).rejects.toThrow();
+      ).rejects.toBeInstanceOf(AuthenticationError);
+    });
+  });
+
+  describe("extractMany", () => {
+    const urls = Array.from(
+      { length: 45 },
+      (_, i) => `https://example.com/p/${i}`,
+    );
+
+    it("should split sources into batches and tag merged records", async () => {
+      const bodies: string[][] = [];
+      nock(BASE_URL)
+        .post("/v1/extract")
+        .times(3)
+        .reply(200, (_uri, body) => {
+          const { data } = body as { data: string[] };
+          bodies.push(data);
+          return { success: true, data: data.map((url) => ({ url })) };
+        });
+
+      const response = await client.extractMany({
+        type: "url",
+        data: urls,
+        prompt: "Extract the page URL",
+      });
+
+      expect(bodies.map((data) => data.length).sort()).toEqual([20, 20, 5]);
+      expect(response.success).toBe(true);
+      expect(response.batchCount).toBe(3);
+      expect(response.data).toHaveLength(45);
+      expect(response.data[44]).toEqual({
+        data: { url: urls[44] },
+        batchIndex: 2,
+        sources: urls.slice(40),
+      });
+    });
+
+    it("should return partial results with per-batch errors", async () => {
+      nock(BASE_URL)
+        .post("/v1/extract", (body) => body.data[0] === urls[0])
+        .reply(400, { success: false, error: "Invalid URL" })
+        .post("/v1/extract", (body) => body.data[0] !== urls[0])
+        .times(4)
+        .reply(200, (_uri, body) => ({
+          success: true,
+          data: (body as { data: string[] }).data.map((url) => ({ url })),
+        }));
+
+      const response = await client.extractMany(
+        { type: "url", data: urls.slice(0, 5) },
+        { batchSize: 1, concurrency: 2 },
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.errors).toHaveLength(1);
+      expect(response.errors[0]).toMatchObject({
+        batchIndex: 0,
+        sources: [urls[0]],
+      });
+      expect(response.errors[0].error).toBeInstanceOf(ValidationError);
+      expect(response.data.map((record) => record.source)).toEqual(
+        urls.slice(1, 5),
+      );
+    });
+
+    it("should reject batch sizes above the API limit", async () => {
+      await expect(
+        client.extractMany({ type: "url", data: urls }, { batchSize: 21 }),
+      ).rejects.toBeInstanceOf(RangeError);
+    });
+
+    it("should reject invalid concurrency", async () => {
+      for (const concurrency of [0, -1, 1.5, Number.NaN]) {
+        await expect(
+          client.extractMany({ type: "url", data: urls }, { concurrency }),
+        ).rejects.toThrow("concurrency must be a positive integer");
+      }
+    });
+
+    it("should stop starting batches after an unexpected error", async () => {
+      let calls = 0;
+      const extract = async ({ data }: { data: string[] }) => {
+        calls++;
+        if (data[0] === urls[0]) {
+          throw new TypeError("Unexpected");
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return { success: true, data: [] };
+      };
+
+      await expect(
+        extractMany(
+          extract,
+          { type: "url", data: urls },
+          { batchSize: 5, concurrency: 2 },
+        ),
+      ).rejects.toThrow("Unexpected");
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(calls).toBe(2);
     });
   });
 
@@ -236,7 +475,254 @@ describe("Nextrows", () => {
           appId: "invalid-app",
           inputs: [],
         }),
-      ).rejects.toThrow();
+      ).rejects.toBeInstanceOf(AppNotFoundError);
+    });
+  });
+
+  describe("runAppJson row validation", () => {
+    const Product = z.object({ Name: z.string(), Price: z.number() });
+    const rows = [
+      { Name: "Product A", Price: 29.99 },
+      { Name: "Product B", Price: null },
+      { Name: "Product C", Price: 9.99 },
+    ];
+
+    beforeEach(() => {
+      nock(BASE_URL)
+        .post("/v1/apps/run/json")
+        .reply(200, { success: true, data: rows, runId: "run_abc123" });
+    });
+
+    it("should throw RowValidationError by default", async () => {
+      const error = await client
+        .runAppJson({ appId: "abc123xyz", inputs: [] }, { schema: Product })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(RowValidationError);
+      expect(error).toMatchObject({
+        runId: "run_abc123",
+        invalidRows: [
+          {
+            index: 1,
+            row: rows[1],
+            issues: [expect.objectContaining({ path: ["Price"] })],
+          },
+        ],
+      });
+    });
+
+    it("should drop invalid rows", async () => {
+      const response = await client.runAppJson(
+        { appId: "abc123xyz", inputs: [] },
+        { schema: Product, onInvalidRow: "drop" },
+      );
+
+      expectTypeOf(response.data).toEqualTypeOf<
+        { Name: string; Price: number }[] | undefined
+      >();
+      expect(response.data).toEqual([rows[0], rows[2]]);
+      expect(response.invalidRows).toBeUndefined();
+    });
+
+    it("should collect invalid rows", async () => {
+      const response = await client.runAppJson(
+        { appId: "abc123xyz", inputs: [] },
+        { schema: Product, onInvalidRow: "collect" },
+      );
+
+      expect(response.data).toEqual([rows[0], rows[2]]);
+      expect(response.invalidRows).toHaveLength(1);
+      expect(response.invalidRows?.[0].index).toBe(1);
+    });
+
+    it("should accept Standard Schema validators", async () => {
+      const schema: StandardSchemaV1<unknown, { Name: string }> = {
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: async (value) =>
+            typeof (value as { Price: unknown }).Price === "number"
+              ? { value: { Name: (value as { Name: string }).Name } }
+              : {
+                  issues: [
+                    { message: "Invalid price", path: [{ key: "Price" }] },
+                  ],
+                },
+        },
+      };
+
+      const response = await client.runAppJson(
+        { appId: "abc123xyz", inputs: [] },
+        { schema, onInvalidRow: "collect" },
+      );
+
+      expect(response.data).toEqual([
+        { Name: "Product A" },
+        { Name: "Product C" },
+      ]);
+      expect(response.invalidRows?.[0].issues).toEqual([
+        { message: "Invalid price", path: ["Price"] },
+      ]);
+    });
+  });
+
+  describe("runAppBatch", () => {
+    const inputSets = ["a", "b", "c"].map((id) => [{ key: "id", value: id }]);
+
+    const replyPerInput = (failing?: string) =>
+      nock(BASE_URL)
+        .post("/v1/apps/run/json")
+        .times(3)
+        .reply((_uri, body) => {
+          const id = (body as { inputs: { value: string }[] }).inputs[0].value;
+          return id === failing
+            ? [404, { success: false, error: "App not found" }]
+            : [
+                200,
+                {
+                  success: true,
+                  data: [{ id }],
+                  runId: `run_${id}`,
+                  elapsedTime: 100,
+                },
+              ];
+        });
+
+    const collect = async <T>(iterator: AsyncIterable<T>) => {
+      const results: T[] = [];
+      for await (const result of iterator) results.push(result);
+      return results;
+    };
+
+    it("should yield one result per input set with progress", async () => {
+      replyPerInput("b");
+      const progress: AppBatchProgress[] = [];
+
+      const results = await collect(
+        client.runAppBatch("abc123xyz", inputSets, {
+          concurrency: 2,
+          onProgress: (event) => progress.push(event),
+        }),
+      );
+
+      const byIndex = results.sort((a, b) => a.index - b.index);
+      expect(byIndex[0]).toMatchObject({
+        success: true,
+        data: [{ id: "a" }],
+        runId: "run_a",
+        elapsedTime: 100,
+      });
+      expect(byIndex[1]).toMatchObject({
+        success: false,
+        error: expect.any(AppNotFoundError),
+      });
+      expect(progress[progress.length - 1]).toEqual({
+        total: 3,
+        completed: 3,
+        succeeded: 2,
+        failed: 1,
+        skipped: 0,
+        inFlight: 0,
+      });
+    });
+
+    it("should resume from a checkpoint without re-running successes", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "nextrows-"));
+      const checkpoint = join(dir, "batch.jsonl");
+      try {
+        replyPerInput("b");
+        await collect(
+          client.runAppBatch("abc123xyz", inputSets, { checkpoint }),
+        );
+
+        const lines = (await readFile(checkpoint, "utf8")).trim().split("\n");
+        expect(lines).toHaveLength(2);
+
+        const scope = nock(BASE_URL)
+          .post("/v1/apps/run/json", {
+            appId: "abc123xyz",
+            inputs: inputSets[1],
+          })
+          .reply(200, { success: true, data: [{ id: "b" }], runId: "run_b" });
+        const progress: AppBatchProgress[] = [];
+
+        const results = await collect(
+          client.runAppBatch("abc123xyz", inputSets, {
+            checkpoint,
+            onProgress: (event) => progress.push(event),
+          }),
+        );
+
+        expect(scope.isDone()).toBe(true);
+        expect(results.map((result) => result.index)).toEqual([1]);
+        expect(progress[progress.length - 1]).toMatchObject({
+          skipped: 2,
+          succeeded: 1,
+        });
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should not skip table runs recorded by a JSON run", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "nextrows-"));
+      const checkpoint = join(dir, "batch.jsonl");
+      try {
+        replyPerInput();
+        await collect(
+          client.runAppBatch("abc123xyz", inputSets, { checkpoint }),
+        );
+        nock(BASE_URL)
+          .post("/v1/apps/run/table")
+          .times(3)
+          .reply(200, { success: true, data: { columns: [], tableData: [] } });
+
+        const results = await collect(
+          client.runAppBatch("abc123xyz", inputSets, {
+            checkpoint,
+            format: "table",
+          }),
+        );
+
+        expect(results).toHaveLength(3);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should observe runs left in flight when iteration stops", async () => {
+      const unhandled: unknown[] = [];
+      const onUnhandled = (reason: unknown) => unhandled.push(reason);
+      process.on("unhandledRejection", onUnhandled);
+      try {
+        const failLater = () =>
+          new Promise<never>((_resolve, reject) =>
+            setTimeout(() => reject(new TypeError("socket closed")), 10),
+          );
+        const runs = [
+          () => Promise.resolve({ success: true, data: [] }),
+          failLater,
+          failLater,
+        ];
+        let calls = 0;
+        const batch = runAppBatch(
+          { json: () => runs[calls++](), table: () => failLater() },
+          "abc123xyz",
+          inputSets,
+          { concurrency: 3 },
+        );
+
+        for await (const result of batch) {
+          expect(result.success).toBe(true);
+          break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 30));
+
+        expect(calls).toBe(3);
+        expect(unhandled).toEqual([]);
+      } finally {
+        process.off("unhandledRejection", onUnhandled);
+      }
     });
   });
 
@@ -291,7 +777,364 @@ describe("Nextrows", () => {
           appId: "abc123xyz",
           inputs: [],
         }),
-      ).rejects.toThrow();
+      ).rejects.toBeInstanceOf(InsufficientCreditsError);
+    });
+  });
+
+  describe("errors", () => {
+    it("should carry status, server message, run ID and path", async () => {
+      nock(BASE_URL).post("/v1/apps/run/json").reply(402, {
+        success: false,
+        error: "Credits exhausted",
+        runId: "run_abc123",
+      });
+
+      const error = await client
+        .runAppJson({ appId: "abc123xyz", inputs: [] })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(InsufficientCreditsError);
+      expect(error).toBeInstanceOf(NextrowsError);
+      expect(error).toMatchObject({
+        status: 402,
+        serverMessage: "Credits exhausted",
+        runId: "run_abc123",
+        path: "/v1/apps/run/json",
+      });
+    });
+
+    it("should map other 4xx responses to ValidationError", async () => {
+      nock(BASE_URL).post("/v1/extract").reply(400, {
+        success: false,
+        error: "data must contain at least 1 item",
+      });
+
+      await expect(
+        client.extract({ type: "url", data: [] }),
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it("should map 5xx responses to ServerError", async () => {
+      nock(BASE_URL).get("/v1/credits").reply(503);
+
+      await expect(client.getCredits({ retry: false })).rejects.toBeInstanceOf(
+        ServerError,
+      );
+    });
+
+    it("should map timeouts to TimeoutError", async () => {
+      const slowClient = new Nextrows({ apiKey, timeout: 50 });
+      nock(BASE_URL)
+        .get("/v1/credits")
+        .delay(200)
+        .reply(200, { success: true });
+
+      await expect(slowClient.getCredits()).rejects.toBeInstanceOf(
+        TimeoutError,
+      );
+    });
+
+    it("should map connection failures to NetworkError", async () => {
+      nock(BASE_URL).get("/v1/credits").replyWithError("socket hang up");
+
+      await expect(client.getCredits({ retry: false })).rejects.toBeInstanceOf(
+        NetworkError,
+      );
+    });
+  });
+
+  describe("retry", () => {
+    const retry = { initialDelay: 1, jitter: false };
+
+    it("should retry transient server errors", async () => {
+      const scope = nock(BASE_URL)
+        .post("/v1/apps/run/json")
+        .reply(502)
+        .post("/v1/apps/run/json")
+        .replyWithError("socket hang up")
+        .post("/v1/apps/run/json")
+        .reply(200, { success: true, data: [], runId: "run_abc123" });
+
+      const response = await client.runAppJson(
+        { appId: "abc123xyz", inputs: [] },
+        { retry },
+      );
+
+      expect(scope.isDone()).toBe(true);
+      expect(response.runId).toBe("run_abc123");
+    });
+
+    it("should record the retry count on the final error", async () => {
+      nock(BASE_URL).get("/v1/credits").times(3).reply(500);
+
+      const error = await client.getCredits({ retry }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(error).toMatchObject({ retryCount: 2 });
+    });
+
+    it.each([
+      401, 402, 404,
+    ])("should never retry %i responses", async (status) => {
+      const scope = nock(BASE_URL)
+        .post("/v1/apps/run/table")
+        .reply(status, { success: false, error: "Nope" });
+
+      const error = await client
+        .runAppTable({ appId: "abc123xyz", inputs: [] }, { retry })
+        .catch((e: unknown) => e);
+
+      expect(scope.isDone()).toBe(true);
+      expect(error).toMatchObject({ status, retryCount: 0 });
+    });
+
+    it("should honor the Retry-After header", async () => {
+      nock(BASE_URL)
+        .get("/v1/credits")
+        .reply(429, { error: "Too many requests" }, { "Retry-After": "0.2" })
+        .get("/v1/credits")
+        .reply(200, { success: true, data: { credits: 42 } });
+
+      const startedAt = Date.now();
+      const response = await client.getCredits({ retry });
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(150);
+      expect(response.data?.credits).toBe(42);
+    });
+
+    it("should respect the client-level retry option", async () => {
+      const noRetryClient = new Nextrows({ apiKey, retry: false });
+      const scope = nock(BASE_URL).get("/v1/credits").reply(503);
+
+      await expect(noRetryClient.getCredits()).rejects.toBeInstanceOf(
+        ServerError,
+      );
+      expect(scope.isDone()).toBe(true);
+    });
+  });
+
+  describe("cancellation and per-call timeouts", () => {
+    it.each([
+      "axios",
+      "fetch",
+    ] as const)("should reject with AbortError when a %s request is aborted", async (transport) => {
+      const abortable = new Nextrows({ apiKey, transport });
+      nock(BASE_URL)
+        .get("/v1/credits")
+        .delay(1000)
+        .reply(200, { success: true });
+      const controller = new AbortController();
+      const reason = new Error("client disconnected");
+
+      const result = abortable
+        .getCredits({ signal: controller.signal })
+        .catch((e) => e);
+      setTimeout(() => controller.abort(reason), 20);
+      const error = await result;
+
+      expect(error).toBeInstanceOf(AbortError);
+      expect(error.cause).toBe(reason);
+      expect(error.path).toBe("/v1/credits");
+    });
+
+    it("should not send requests with an already aborted signal", async () => {
+      const scope = nock(BASE_URL).get("/v1/credits").reply(200, {});
+
+      await expect(
+        client.getCredits({ signal: AbortSignal.abort() }),
+      ).rejects.toBeInstanceOf(AbortError);
+      expect(scope.isDone()).toBe(false);
+    });
+
+    it("should stop waiting for a retry when aborted", async () => {
+      nock(BASE_URL).get("/v1/credits").reply(503);
+      const controller = new AbortController();
+
+      const result = client
+        .getCredits({
+          signal: controller.signal,
+          retry: { initialDelay: 10_000, jitter: false },
+        })
+        .catch((e) => e);
+      setTimeout(() => controller.abort(), 50);
+
+      expect(await result).toBeInstanceOf(AbortError);
+    });
+
+    it("should override the client timeout per call", async () => {
+      nock(BASE_URL)
+        .get("/v1/credits")
+        .delay(200)
+        .reply(200, { success: true })
+        .post("/v1/apps/run/table")
+        .delay(100)
+        .reply(200, { success: true });
+      const fastClient = new Nextrows({ apiKey, timeout: 50 });
+
+      await expect(client.getCredits({ timeout: 50 })).rejects.toBeInstanceOf(
+        TimeoutError,
+      );
+      await expect(
+        fastClient.runAppTable(
+          { appId: "abc123xyz", inputs: [] },
+          { timeout: 5000 },
+        ),
+      ).resolves.toMatchObject({ success: true });
+    });
+
+    it("should cancel every in-flight batch of extractMany", async () => {
+      const server = new FakeNextrowsServer({ latency: 1000 });
+      const controller = new AbortController();
+
+      const result = server
+        .createClient()
+        .extractMany(
+          { type: "url", data: ["a", "b", "c", "d"] },
+          { batchSize: 1, concurrency: 2, signal: controller.signal },
+        )
+        .catch((e) => e);
+      setTimeout(() => controller.abort(), 20);
+
+      expect(await result).toBeInstanceOf(AbortError);
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it("should cancel every in-flight run of runAppBatch", async () => {
+      const server = new FakeNextrowsServer({ latency: 1000 }).app("app", []);
+      const controller = new AbortController();
+      const onProgress = vi.fn();
+      const results: unknown[] = [];
+
+      const iterate = async () => {
+        for await (const result of server
+          .createClient()
+          .runAppBatch("app", [[], [], []], {
+            concurrency: 2,
+            signal: controller.signal,
+            onProgress,
+          })) {
+          results.push(result);
+        }
+      };
+      const result = iterate().catch((e) => e);
+      setTimeout(() => controller.abort(), 20);
+
+      expect(await result).toBeInstanceOf(AbortError);
+      expect(results).toEqual([]);
+      expect(onProgress).not.toHaveBeenCalled();
+      expect(server.requests).toHaveLength(2);
+    });
+  });
+
+  describe("Standard Schema extraction", () => {
+    interface Product {
+      name: string;
+    }
+
+    const productJsonSchema = {
+      type: "object",
+      properties: { name: { type: "string" } },
+      required: ["name"],
+    };
+
+    /**
+     * A minimal Standard Schema validator of `Product`, as a library with
+     * the given vendor name would implement it.
+     */
+    function productSchema(vendor: string) {
+      return {
+        "~standard": {
+          version: 1,
+          vendor,
+          validate: (value: unknown) =>
+            typeof (value as Product)?.name === "string"
+              ? { value: value as Product }
+              : { issues: [{ message: "Expected a name", path: ["name"] }] },
+          types: undefined as unknown as { input: Product; output: Product },
+        },
+        toJsonSchema: () => productJsonSchema,
+      } satisfies StandardSchemaV1<Product> & { toJsonSchema: () => object };
+    }
+
+    const request = { type: "text" as const, data: ["Product A"] };
+
+    it("should convert, type and validate ArkType schemas", async () => {
+      const server = new FakeNextrowsServer().scriptExtract(
+        { name: "Product A" },
+        { title: "Product B" },
+      );
+      const client = server.createClient();
+      // ArkType schemas are functions validating their argument
+      const schema = Object.assign(
+        (value: unknown) => value,
+        productSchema("arktype"),
+      );
+
+      const result = await client.extract({ ...request, schema });
+
+      expectTypeOf(result.data).toEqualTypeOf<Product | undefined>();
+      expect(result.data).toEqual({ name: "Product A" });
+      expect(server.requests[0].body).toMatchObject({
+        schema: productJsonSchema,
+      });
+      await expect(
+        client.extract({ ...request, schema }),
+      ).rejects.toBeInstanceOf(SchemaValidationError);
+    });
+
+    it("should fail clearly when a converter is missing", async () => {
+      const server = new FakeNextrowsServer();
+      const client = server.createClient();
+
+      const unregistered = await client
+        .extract({ ...request, schema: productSchema("yup") })
+        .catch((e) => e);
+      const uninstalled = await client
+        .extract({ ...request, schema: productSchema("valibot") })
+        .catch((e) => e);
+
+      expect(unregistered).toBeInstanceOf(SchemaConversionError);
+      expect(unregistered).toMatchObject({ vendor: "yup" });
+      expect(unregistered.message).toContain(
+        'registerSchemaConverter("yup", converter)',
+      );
+      expect(uninstalled.message).toContain("@valibot/to-json-schema");
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it("should use registered converters", async () => {
+      const server = new FakeNextrowsServer().onExtract(() => ({
+        name: "Product A",
+      }));
+      registerSchemaConverter("custom", () => ({ type: "object" }));
+
+      await server
+        .createClient()
+        .extract({ ...request, schema: productSchema("custom") });
+
+      expect(server.requests[0].body).toMatchObject({
+        schema: { type: "object" },
+      });
+    });
+
+    it("should send TypeBox schemas as JSON Schema and infer their type", async () => {
+      const server = new FakeNextrowsServer().onExtract(() => [
+        { name: "Product A" },
+      ]);
+      const schema = {
+        [Symbol.for("TypeBox.Kind")]: "Array",
+        type: "array",
+        items: productJsonSchema,
+      } as unknown as { static: Product[]; [key: string]: unknown };
+
+      const result = await server
+        .createClient()
+        .extract({ ...request, schema });
+
+      expectTypeOf(result.data).toEqualTypeOf<Product[] | undefined>();
+      expect(server.requests[0].body).toMatchObject({
+        schema: { type: "array", items: productJsonSchema },
+      });
     });
   });
 });
@@ -1,9 +1,10 @@
-import type { AxiosInstance } from "axios";
-import axios from "axios";
 import {
   type AppJsonRow,
+  type RunAppJsonOptions,
   type RunAppJsonRequest,
+  type AppInput,
   type RunAppJsonResponse,
+  type RunAppTableData,
   type RunAppTableRequest,
   type RunAppTableResponse,
   runAppJson,
@@ -11,16 +12,80 @@ import {
 } from "../api/apps";
 import { type GetCreditsResponse, getCredits } from "../api/credits";
 import {
+  type ExtractOptions,
   type ExtractRequest,
   type ExtractResponse,
+  type ExtractSchema,
   extract,
+  type InferExtractData,
 } from "../api/extract";
+import {
+  type AppBatchResult,
+  type ExtractManyItem,
+  type ExtractManyOptions,
+  type ExtractManyResponse,
+  extractMany,
+  type RunAppBatchOptions,
+  runAppBatch,
+} from "../batch";
+import { BudgetGuard, type BudgetOptions } from "../budget";
+import {
+  type CacheMode,
+  type CacheOptions,
+  type CacheStatus,
+  ResponseCache,
+} from "../cache";
+import { Cassette, type CassetteOptions } from "../cassette";
+import {
+  type ConfigSourceOptions,
+  redactApiKey,
+  resolveConfig,
+  validateApiKey,
+} from "../config";
+import {
+  CredentialsCache,
+  type CredentialsProvider,
+  withCredentials,
+} from "../credentials";
+import {
+  type AppDefinitionOptions,
+  type AppInputSpec,
+  type AppRunner,
+  defineApp,
+  type InferAppRow,
+} from "../define-app";
+import { ConfigurationError, NextrowsError } from "../errors";
+import { type HistoryOptions, RunHistory } from "../history";
+import {
+  applyMiddleware,
+  createLoggingMiddleware,
+  type LoggingOptions,
+  type Middleware,
+} from "../middleware";
+import { type RateLimitOptions, RateLimiter } from "../rate-limit";
+import { type RetryOptions, resolveRetryOptions, withRetry } from "../retry";
+import type { InferSchemaOutput, ValidationSchema } from "../schema";
+import {
+  observeResponses,
+  Telemetry,
+  type TelemetryCall,
+  type TelemetryOptions,
+} from "../telemetry";
+import {
+  isUnsent,
+  resolveTransport,
+  type Transport,
+  type TransportOption,
+  withDefaults,
+} from "../transport";
 
 export type {
   AppCellValue,
   AppInput,
   AppInputValue,
   AppJsonRow,
+  InvalidRowPolicy,
+  RunAppJsonOptions,
   RunAppJsonRequest,
   RunAppJsonResponse,
   RunAppRequest,
@@ -30,12 +95,154 @@ export type {
 } from "../api/apps";
 export type { GetCreditsResponse } from "../api/credits";
 export type {
+  ExtractOptions,
   ExtractRequest,
   ExtractResponse,
   ExtractSchema,
   ExtractType,
+  ExtractValidateMode,
+  InferExtractData,
   JsonSchema,
 } from "../api/extract";
+export type {
+  AppBatchFailure,
+  AppBatchFormat,
+  AppBatchProgress,
+  AppBatchResult,
+  AppBatchSuccess,
+  ExtractBatchError,
+  ExtractManyItem,
+  ExtractManyOptions,
+  ExtractManyResponse,
+  ExtractRecord,
+  RunAppBatchOptions,
+} from "../batch";
+export {
+  BudgetGuard,
+  type BudgetOptions,
+  type BudgetUsage,
+  type TagUsage,
+} from "../budget";
+export {
+  type CacheEntry,
+  type CacheMode,
+  type CacheOptions,
+  type CacheStatus,
+  type CacheStore,
+  FileCacheStore,
+  MemoryCacheStore,
+} from "../cache";
+export {
+  Cassette,
+  type CassetteInteraction,
+  type CassetteMode,
+  type CassetteOptions,
+  type CassetteRequest,
+} from "../cassette";
+export {
+  API_KEY_PREFIX,
+  type ConfigSourceOptions,
+  type NextrowsProfile,
+  type ResolvedConfig,
+  redactApiKey,
+  resolveConfig,
+  validateApiKey,
+} from "../config";
+export {
+  type Credentials,
+  type CredentialsContext,
+  type CredentialsProvider,
+  credentialsFromFile,
+  type FileCredentialsOptions,
+} from "../credentials";
+export {
+  type AppDefinition,
+  type AppDefinitionOptions,
+  type AppInputSpec,
+  type AppInputType,
+  type AppRunner,
+  type AppRunOptions,
+  defineApp,
+  type InferAppInputs,
+  type InferAppRow,
+} from "../define-app";
+export {
+  AbortError,
+  AppInputError,
+  AppNotFoundError,
+  AuthenticationError,
+  BudgetExceededError,
+  CassetteMissError,
+  ConfigurationError,
+  InsufficientCreditsError,
+  type InvalidRow,
+  NetworkError,
+  NextrowsError,
+  type NextrowsErrorOptions,
+  RateLimitError,
+  RowValidationError,
+  SchemaConversionError,
+  SchemaValidationError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from "../errors";
+export {
+  type HistoryOptions,
+  type HistoryQuery,
+  type HistoryStore,
+  historyStoreFromPath,
+  JsonlHistoryStore,
+  MemoryHistoryStore,
+  RunHistory,
+  type RunRecord,
+  type SqliteDatabaseLike,
+  SqliteHistoryStore,
+} from "../history";
+export {
+  createLoggingMiddleware,
+  type Logger,
+  type LoggingOptions,
+  type Middleware,
+  type MiddlewareFunction,
+  type MiddlewareHooks,
+  type MiddlewareNext,
+  type RequestLogEntry,
+} from "../middleware";
+export {
+  FileRateLimitStore,
+  MemoryRateLimitStore,
+  type RateLimitOptions,
+  RateLimiter,
+  type RateLimitRule,
+  type RateLimitState,
+  type RateLimitStats,
+  type RateLimitStore,
+  type RateLimitWaitEvent,
+} from "../rate-limit";
+export type { RetryOptions } from "../retry";
+export type {
+  InferSchemaOutput,
+  SchemaIssue,
+  StandardSchemaV1,
+  ValidationSchema,
+} from "../schema";
+export {
+  type JsonSchemaConverter,
+  registerSchemaConverter,
+} from "../schema/json-schema";
+export type { TelemetryOptions } from "../telemetry";
+export {
+  type AxiosTransportOptions,
+  createAxiosTransport,
+  createFetchTransport,
+  type FetchTransportOptions,
+  type Transport,
+  type TransportMethod,
+  type TransportOption,
+  type TransportRequest,
+  type TransportResponse,
+} from "../transport";
 
 const BASE_URL = "https://api.nextrows.com";
 
@@ -44,9 +251,27 @@ const BASE_URL = "https://api.nextrows.com";
  */
 export interface NextrowsOptions {
   /**
-   * Your Nextrows API key (Bearer token)
+   * Your Nextrows API key (Bearer token). Required unless `credentials` is
+   * set.
+   */
+  apiKey?: string;
+
+  /**
+   * Function supplying the API key, for keys kept in a secrets vault or
+   * rotated without restarting the process. The key is cached until the
+   * expiry the provider returns, and fetched again when the API rejects it
+   * with a 401, in which case the request is sent once more with the new
+   * key. Use instead of `apiKey`.
+   *
+   * @example
+   * ```typescript
+   * credentials: async ({ refresh }) => {
+   *   const secret = await vault.read("nextrows", { fresh: refresh });
+   *   return { apiKey: secret.value, expiresAt: secret.expiresAt };
+   * }
+   * ```
    */
-  apiKey: string;
+  credentials?: CredentialsProvider;
 
   /**
    * Base URL for the API.
@@ -59,6 +284,120 @@ export interface NextrowsOptions {
    * @default 30000
    */
   timeout?: number;
+
+  /**
+   * Automatic retry behaviour for failed requests, or `false` to disable
+   * retries. Can be overridden per call via {@link RequestOptions.retry}.
+   *
+   * @default { maxAttempts: 3, initialDelay: 500, maxDelay: 30000, factor: 2, jitter: true }
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * How requests are sent: `"axios"`, `"fetch"` (no dependencies, for edge
+   * runtimes and browsers) or a custom {@link Transport}.
+   * @default "axios"
+   */
+  transport?: TransportOption;
+
+  /**
+   * Record requests to a cassette file and replay them, for deterministic
+   * integration tests. The `Authorization` header is never recorded.
+   */
+  cassette?: CassetteOptions;
+
+  /**
+   * Cache successful extract and app run responses. Cached responses have a
+   * `cache` field. Can be bypassed or refreshed per call via
+   * {@link RequestOptions.cache}.
+   */
+  cache?: CacheOptions;
+
+  /**
+   * Limit requests per second and requests in flight, for all methods or
+   * per endpoint. Cached and replayed responses are not limited. Queue
+   * depth and wait times are available from {@link Nextrows.rateLimiter}.
+   */
+  rateLimit?: RateLimitOptions;
+
+  /**
+   * Middleware wrapping every request, in order: functions composed like
+   * Koa, or `onRequest` / `onResponse` / `onError` hooks. Middleware sees
+   * requests with headers set, and runs for every retry attempt.
+   */
+  middleware?: Middleware[];
+
+  /**
+   * Log every request with {@link createLoggingMiddleware}. The API key is
+   * always redacted.
+   */
+  logging?: LoggingOptions;
+
+  /**
+   * Record a span and metrics for every `extract`, `runAppJson`,
+   * `runAppTable` and `getCredits` call with OpenTelemetry. Requires the
+   * `@opentelemetry/api` package; without it, calls are not instrumented.
+   * Pass `true` to use the global tracer and meter providers.
+   */
+  telemetry?: boolean | TelemetryOptions;
+
+  /**
+   * Refuse `extract`, `runAppJson` and `runAppTable` calls when the credit
+   * balance falls below a floor or the client has spent a session limit,
+   * and account credits spent per call `tag`. Usage is available from
+   * {@link Nextrows.budget}.
+   */
+  budget?: BudgetOptions;
+
+  /**
+   * Record every `extract`, `runAppJson` and `runAppTable` call (inputs
+   * hash, outcome, run ID, row count and latency) to a store, for audits
+   * and debugging. Records are queried with {@link Nextrows.history}.
+   */
+  history?: HistoryOptions;
+}
+
+/**
+ * Options for {@link Nextrows.fromEnv}: where to read settings from, and
+ * client options overriding them.
+ */
+export interface FromEnvOptions
+  extends Omit<NextrowsOptions, "credentials">,
+    ConfigSourceOptions {}
+
+/**
+ * Per-call options accepted by every client method.
+ */
+export interface RequestOptions {
+  /**
+   * Retry behaviour for this call, merged over the client's `retry` option.
+   * Pass `false` to disable retries for this call.
+   */
+  retry?: RetryOptions | false;
+
+  /**
+   * Cache behaviour for this call when the client has a `cache`:
+   * `"bypass"` skips the cache, `"refresh"` replaces the cached response.
+   */
+  cache?: CacheMode;
+
+  /**
+   * Signal cancelling the call, including pending retries. Cancelled calls
+   * reject with an {@link AbortError}.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout of each attempt in milliseconds, overriding the client's
+   * `timeout`.
+   */
+  timeout?: number;
+
+  /**
+   * Label the credits spent by this call are accounted under, such as a
+   * project or customer, when the client has a `budget`.
+   */
+  tag?: string;
 }
 
 /**
@@ -68,7 +407,7 @@ export interface NextrowsOptions {
  * ```typescript
  * import { Nextrows } from "nextrows";
  *
- * const client = new Nextrows({ apiKey: "your-api-key" });
+ * const client = new Nextrows({ apiKey: "sk-nr-your-api-key" });
  *
  * // Extract data from a URL
  * const result = await client.extract({
@@ -81,8 +420,31 @@ export interface NextrowsOptions {
  * ```
  */
 export class Nextrows {
-  private readonly client: AxiosInstance;
-  readonly apiKey: string;
+  private readonly transport: Transport;
+  private readonly cache: ResponseCache | undefined;
+  private readonly revalidating = new Set<string>();
+  private readonly pipeline: (transport: Transport) => Transport;
+  private readonly retry: RetryOptions | false | undefined;
+  private readonly credentials: CredentialsCache;
+  private readonly telemetry: Telemetry | undefined;
+  private readonly onWarning: ExtractOptions["onWarning"];
+  private readonly baseUrl: string;
+  private readonly timeout: number;
+
+  /**
+   * The client's rate limiter, when the `rateLimit` option is set.
+   */
+  readonly rateLimiter: RateLimiter | undefined;
+
+  /**
+   * The client's budget guard, when the `budget` option is set.
+   */
+  readonly budget: BudgetGuard | undefined;
+
+  /**
+   * The client's run history, when the `history` option is set.
+   */
+  readonly history: RunHistory | undefined;
 
   /**
    * Creates a new Nextrows API client.
@@ -98,37 +460,253 @@ export class Nextrows {
    * const client = new Nextrows({
    *   apiKey: "sk-nr-your-api-key",
    *   timeout: 60000, // 60 second timeout
+   *   retry: { maxAttempts: 5 }, // retry transient failures up to 4 times
    * });
+   *
+   * // On Cloudflare Workers, Vercel Edge, Deno or in browsers
+   * const client = new Nextrows({ apiKey: "sk-nr-your-api-key", transport: "fetch" });
    * ```
+   *
+   * @throws {ConfigurationError} When neither `apiKey` nor `credentials`
+   * is set, both are, or `apiKey` is empty or does not start with `sk-nr-`
    */
   constructor(options: NextrowsOptions) {
-    const { apiKey, baseUrl = BASE_URL, timeout = 30000 } = options;
-    this.apiKey = apiKey;
+    const {
+      apiKey,
+      credentials,
+      baseUrl = BASE_URL,
+      timeout = 30000,
+      retry,
+      transport,
+      cassette,
+      cache,
+      rateLimit,
+      middleware = [],
+      logging,
+      telemetry,
+      budget,
+      history,
+    } = options;
+    if (credentials && apiKey !== undefined) {
+      throw new ConfigurationError(
+        "Pass either apiKey or credentials, not both",
+        "the credentials option",
+      );
+    }
+    if (credentials) {
+      this.credentials = new CredentialsCache(credentials);
+    } else {
+      const key = validateApiKey(apiKey, "the apiKey option");
+      this.credentials = new CredentialsCache(() => key, key);
+    }
+    this.baseUrl = baseUrl;
+    this.timeout = timeout;
+    this.retry = retry;
+    this.telemetry = telemetry
+      ? new Telemetry(telemetry === true ? {} : telemetry)
+      : undefined;
+    this.budget = budget
+      ? new BudgetGuard(() => this.fetchBalance(), budget)
+      : undefined;
+    this.history = history
+      ? new RunHistory({
+          ...history,
+          onError:
+            history.onError ??
+            (logging
+              ? (error, record) =>
+                  (logging.logger ?? console).warn(
+                    { operation: record.operation, error },
+                    `Could not record the ${record.operation} call`,
+                  )
+              : undefined),
+        })
+      : undefined;
+    this.onWarning = logging
+      ? (error) =>
+          (logging.logger ?? console).warn(
+            { path: error.path, issues: error.issues },
+            error.message,
+          )
+      : undefined;
+
+    const base = resolveTransport(transport);
+    this.rateLimiter = rateLimit ? new RateLimiter(base, rateLimit) : undefined;
+    const limited = this.rateLimiter ?? base;
+    const recorded = cassette ? new Cassette(limited, cassette) : limited;
+    this.cache = cache ? new ResponseCache(recorded, cache) : undefined;
 
-    this.client = axios.create({
-      baseURL: baseUrl,
+    const pipeline = logging
+      ? [...middleware, createLoggingMiddleware(logging)]
+      : middleware;
+    const defaults = {
+      baseUrl,
       timeout,
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
+      headers: { "Content-Type": "application/json" },
+    };
+    this.pipeline = (inner) =>
+      withDefaults(
+        withCredentials(applyMiddleware(inner, pipeline), this.credentials),
+        defaults,
+      );
+    this.transport = this.pipeline(this.cache ?? recorded);
+  }
+
+  /**
+   * The API key of the last request, or the `apiKey` option. `undefined`
+   * until the `credentials` provider has returned a key. Not included in
+   * `JSON.stringify(client)` or `console.log(client)`.
+   */
+  get apiKey(): string | undefined {
+    return this.credentials.current;
+  }
+
+  /**
+   * Settings of the client, with the API key redacted.
+   */
+  toJSON(): { apiKey: string | undefined; baseUrl: string; timeout: number } {
+    const { current } = this.credentials;
+    return {
+      apiKey: current === undefined ? undefined : redactApiKey(current),
+      baseUrl: this.baseUrl,
+      timeout: this.timeout,
+    };
+  }
+
+  /**
+   * Shown by `console.log(client)` and `util.inspect` in Node.js, with the
+   * API key redacted.
+   */
+  [Symbol.for("nodejs.util.inspect.custom")](
+    _depth: number,
+    options: unknown,
+    inspect: (value: unknown, options: unknown) => string,
+  ): string {
+    return `Nextrows ${inspect(this.toJSON(), options)}`;
+  }
+
+  /**
+   * Create a client configured from the environment: `NEXTROWS_API_KEY`,
+   * `NEXTROWS_BASE_URL` and `NEXTROWS_TIMEOUT`, and a named profile of
+   * `~/.config/nextrows/config.json`. Options passed here override both.
+   *
+   * A profile selected with `profile` or `NEXTROWS_PROFILE` takes precedence
+   * over the environment variables; otherwise the `default` profile is the
+   * fallback. Every value is validated up front, and errors name where the
+   * bad value came from.
+   *
+   * @param options - Profile, environment and client options
+   * @returns The configured client
+   * @throws {ConfigurationError} When no API key is found, a value is
+   * invalid, or the selected profile does not exist
+   *
+   * @example
+   * ```typescript
+   * // NEXTROWS_API_KEY=sk-nr-... node script.js
+   * const client = await Nextrows.fromEnv();
+   *
+   * // Settings of the "staging" profile in ~/.config/nextrows/config.json
+   * const staging = await Nextrows.fromEnv({ profile: "staging", retry: false });
+   * ```
+   */
+  static async fromEnv(options: FromEnvOptions = {}): Promise<Nextrows> {
+    const { profile, env, configFile, ...clientOptions } = options;
+    const config = await resolveConfig(clientOptions, {
+      profile,
+      env,
+      configFile,
+    });
+    return new Nextrows({
+      ...clientOptions,
+      apiKey: config.apiKey,
+      baseUrl: config.baseUrl,
+      timeout: config.timeout,
     });
   }
 
   /**
    * Extract structured data from URLs or text content using AI.
+   *
+   * When `schema` is a Zod schema, the type of `data` is inferred from it and
+   * the response is validated against it (see {@link ExtractOptions.validate}).
+   *
    * @see {@link extract} for detailed documentation
    */
-  async extract(request: ExtractRequest): Promise<ExtractResponse> {
-    return extract(this.client, request);
+  async extract<S extends ExtractSchema = ExtractSchema>(
+    request: ExtractRequest<S>,
+    options: RequestOptions & ExtractOptions = {},
+  ): Promise<ExtractResponse<InferExtractData<S>>> {
+    return this.call(
+      {
+        operation: "extract",
+        endpoint: "/v1/extract",
+        inputCount: request.data.length,
+        inputs: {
+          type: request.type,
+          data: request.data,
+          prompt: request.prompt,
+        },
+      },
+      options,
+      (transport) =>
+        extract(transport, request, {
+          ...options,
+          onWarning: options.onWarning ?? this.onWarning,
+        }),
+    );
+  }
+
+  /**
+   * Extract structured data from any number of sources.
+   *
+   * Sources are split into batches of at most 20, batches run with bounded
+   * concurrency and array results are merged into one list. Each record is
+   * tagged with its batch index and sources. Failed batches are reported in
+   * `errors` while the other batches' records are still returned.
+   *
+   * @see {@link extractMany} for detailed documentation
+   *
+   * @example
+   * ```typescript
+   * const result = await client.extractMany(
+   *   {
+   *     type: "url",
+   *     data: productUrls, // any number of URLs
+   *     schema: z.array(Product),
+   *   },
+   *   { concurrency: 4 },
+   * );
+   *
+   * for (const record of result.data) {
+   *   console.log(record.batchIndex, record.sources, record.data.name);
+   * }
+   *
+   * for (const { batchIndex, error } of result.errors) {
+   *   console.error(`Batch ${batchIndex} failed:`, error.message);
+   * }
+   * ```
+   */
+  async extractMany<S extends ExtractSchema = ExtractSchema>(
+    request: ExtractRequest<S>,
+    options: RequestOptions & ExtractOptions & ExtractManyOptions = {},
+  ): Promise<ExtractManyResponse<ExtractManyItem<InferExtractData<S>>>> {
+    return extractMany(
+      (batch) => this.extract(batch, options),
+      request,
+      options,
+    );
   }
 
   /**
    * Get the current credit balance for the authenticated user.
    * @see {@link getCredits} for detailed documentation
    */
-  async getCredits(): Promise<GetCreditsResponse> {
-    return getCredits(this.client);
+  async getCredits(options: RequestOptions = {}): Promise<GetCreditsResponse> {
+    return this.call(
+      { operation: "getCredits", endpoint: "/v1/credits" },
+      options,
+      (transport) => getCredits(transport),
+    );
   }
 
   /**
@@ -175,12 +753,42 @@ export class Nextrows {
    *     console.log(product.name, product.price); // Fully typed!
    *   }
    * }
+   *
+   * // With a row schema (Zod or any Standard Schema validator)
+   * const Product = z.object({ name: z.string(), price: z.number() });
+   *
+   * const validated = await client.runAppJson(
+   *   { appId: "abc123xyz", inputs: [] },
+   *   { schema: Product, onInvalidRow: "collect" },
+   * );
+   *
+   * console.log(validated.data); // { name: string; price: number }[]
+   * console.log(validated.invalidRows); // [{ index, row, issues }]
    * ```
    */
+  async runAppJson<S extends ValidationSchema>(
+    request: RunAppJsonRequest,
+    options: RequestOptions & RunAppJsonOptions<S> & { schema: S },
+  ): Promise<RunAppJsonResponse<InferSchemaOutput<S>>>;
   async runAppJson<T = AppJsonRow>(
     request: RunAppJsonRequest,
+    options?: RequestOptions & RunAppJsonOptions,
+  ): Promise<RunAppJsonResponse<T>>;
+  async runAppJson<T = AppJsonRow>(
+    request: RunAppJsonRequest,
+    options: RequestOptions & RunAppJsonOptions = {},
   ): Promise<RunAppJsonResponse<T>> {
-    return runAppJson<T>(this.client, request);
+    return this.call(
+      {
+        operation: "runAppJson",
+        endpoint: "/v1/apps/run/json",
+        appId: request.appId,
+        inputCount: request.inputs.length,
+        inputs: request.inputs,
+      },
+      options,
+      (transport) => runAppJson<T>(transport, request, options),
+    );
   }
 
   /**
@@ -209,7 +817,228 @@ export class Nextrows {
    * }
    * ```
    */
-  async runAppTable(request: RunAppTableRequest): Promise<RunAppTableResponse> {
-    return runAppTable(this.client, request);
+  async runAppTable(
+    request: RunAppTableRequest,
+    options: RequestOptions = {},
+  ): Promise<RunAppTableResponse> {
+    return this.call(
+      {
+        operation: "runAppTable",
+        endpoint: "/v1/apps/run/table",
+        appId: request.appId,
+        inputCount: request.inputs.length,
+        inputs: request.inputs,
+      },
+      options,
+      (transport) => runAppTable(transport, request),
+    );
+  }
+
+  /**
+   * Run a published NextRows app once per input set with bounded concurrency.
+   *
+   * Returns an async iterator yielding one result per input set as runs
+   * finish, each with its `index`, `runId` and `elapsedTime`. Failed runs are
+   * yielded with `success: false` rather than stopping the batch. With a
+   * `checkpoint` file, input sets that already succeeded in a previous
+   * (crashed or interrupted) session are skipped.
+   *
+   * @see {@link runAppBatch} for detailed documentation
+   *
+   * @example
+   * ```typescript
+   * const inputSets = urls.map((url) => [{ key: "url", value: url }]);
+   *
+   * for await (const result of client.runAppBatch("abc123xyz", inputSets, {
+   *   concurrency: 8,
+   *   checkpoint: "./products.checkpoint.jsonl",
+   *   onProgress: (p) => console.log(`${p.completed + p.skipped}/${p.total}`),
+   * })) {
+   *   if (result.success) {
+   *     console.log(result.index, result.runId, result.data);
+   *   } else {
+   *     console.error(result.index, result.error.message);
+   *   }
+   * }
+   * ```
+   */
+  runAppBatch(
+    appId: string,
+    inputSets: AppInput[][],
+    options: RequestOptions & RunAppBatchOptions & { format: "table" },
+  ): AsyncGenerator<AppBatchResult<RunAppTableData>>;
+  runAppBatch<T = AppJsonRow>(
+    appId: string,
+    inputSets: AppInput[][],
+    options?: RequestOptions & RunAppBatchOptions & { format?: "json" },
+  ): AsyncGenerator<AppBatchResult<T[]>>;
+  runAppBatch<T = AppJsonRow>(
+    appId: string,
+    inputSets: AppInput[][],
+    options: RequestOptions & RunAppBatchOptions = {},
+  ): AsyncGenerator<AppBatchResult<T[] | RunAppTableData>> {
+    return runAppBatch<T>(
+      {
+        json: (request) => this.runAppJson<T>(request, options),
+        table: (request) => this.runAppTable(request, options),
+      },
+      appId,
+      inputSets,
+      options,
+    );
+  }
+
+  /**
+   * Get a typed runner for a published app. Input values are checked against
+   * the input spec at compile time and before the request is sent, and JSON
+   * rows are validated against the row schema.
+   *
+   * Accepts the options of {@link defineApp} or a definition it returned.
+   *
+   * @throws {AppInputError} From the runner's methods, when input values do
+   * not match the input spec
+   *
+   * @example
+   * ```typescript
+   * const products = client.defineApp({
+   *   appId: "abc123xyz",
+   *   inputs: { url: "string", maxItems: "number?" },
+   *   row: z.object({ name: z.string(), price: z.number() }),
+   * });
+   *
+   * const result = await products.run({ url: "https://example.com", maxItems: 10 });
+   * result.data; // { name: string; price: number }[]
+   *
+   * await products.run({ url: "https://example.com", maxitems: 10 }); // compile error
+   * ```
+   */
+  defineApp<
+    I extends AppInputSpec,
+    S extends ValidationSchema | undefined = undefined,
+  >(definition: AppDefinitionOptions<I, S>): AppRunner<I, InferAppRow<S>> {
+    type Row = InferAppRow<S>;
+    const app = defineApp(definition);
+    const { row: schema } = app;
+
+    return {
+      ...app,
+      run: async (values, options = {}) =>
+        this.runAppJson<Row>(app.toRequest(values), { ...options, schema }),
+      runTable: async (values, options = {}) =>
+        this.runAppTable(app.toRequest(values), options),
+      runBatch: (valueSets, options = {}) => {
+        const inputSets = valueSets.map(app.toInputs);
+        const batchOptions = { ...options, schema, format: "json" as const };
+        return this.runAppBatch<Row>(app.appId, inputSets, batchOptions);
+      },
+    };
+  }
+
+  private transportFor(options: RequestOptions): Transport {
+    const { cache, signal, timeout } = options;
+    const transport =
+      this.cache && cache
+        ? this.pipeline(this.cache.withMode(cache))
+        : this.transport;
+    return signal || timeout !== undefined
+      ? withDefaults(transport, { signal, timeout })
+      : transport;
+  }
+
+  private async fetchBalance(): Promise<number> {
+    const response = await withRetry(
+      () => getCredits(this.transport),
+      resolveRetryOptions(this.retry),
+    );
+    if (typeof response.data?.credits !== "number") {
+      throw new NextrowsError("The API did not return the credit balance", {
+        path: "/v1/credits",
+        serverMessage: response.error,
+      });
+    }
+    return response.data.credits;
+  }
+
+  /**
+   * Refresh a stale cached response in the background by sending the call
+   * again, so that the billed request is budgeted, logged and recorded like
+   * any other.
+   */
+  private revalidate(key: string, refresh: () => Promise<unknown>): void {
+    if (this.revalidating.has(key)) {
+      return;
+    }
+    this.revalidating.add(key);
+    refresh()
+      .catch(() => {
+        // Keep serving the stale response; the next miss will retry
+      })
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  /**
+   * Run a call with retries, in a span when telemetry is enabled. Calls
+   * other than `getCredits` go through the budget guard and are recorded
+   * in the history.
+   */
+  private async call<T>(
+    call: TelemetryCall & { inputs?: unknown },
+    options: RequestOptions,
+    fn: (transport: Transport) => Promise<T>,
+  ): Promise<T> {
+    const billed = call.endpoint !== "/v1/credits";
+    const budget = billed ? this.budget : undefined;
+    const history = billed ? this.history : undefined;
+    const run = async (observe?: Parameters<typeof observeResponses>[1]) => {
+      await budget?.check();
+      // Cache hits and cassette replays are not billed
+      let sent = false;
+      try {
+        const result = await withRetry(
+          () => {
+            const transport = this.transportFor(options);
+            return fn(
+              observe || budget
+                ? observeResponses(transport, (response) => {
+                    observe?.(response);
+                    sent ||= response === undefined || !isUnsent(response);
+                  })
+                : transport,
+            );
+          },
+          resolveRetryOptions(this.retry, options.retry),
+          options.signal,
+        );
+        const { cache } = (result ?? {}) as { cache?: CacheStatus };
+        if (cache?.stale) {
+          this.revalidate(cache.key, () =>
+            this.call(
+              call,
+              { ...options, cache: "refresh", signal: undefined },
+              fn,
+            ),
+          );
+        }
+        return result;
+      } finally {
+        budget?.settle(options.tag, sent);
+      }
+    };
+    const traced = () =>
+      this.telemetry ? this.telemetry.trace(call, run) : run();
+    if (!history) {
+      return traced();
+    }
+
+    const started = Date.now();
+    const recorded = { ...call, tag: options.tag };
+    try {
+      const result = await traced();
+      await history.record(recorded, started, { result });
+      return result;
+    } catch (error) {
+      await history.record(recorded, started, { error });
+      throw error;
+    }
   }
 }
@@ -0,0 +1,398 @@
+import type { JsonSchema } from "../api/extract";
+
+/**
+ * Options for {@link generateTypes}.
+ */
+export interface GenerateTypesOptions {
+  /**
+   * Comment written at the top of the file, e.g. where the types came from.
+   */
+  header?: string;
+}
+
+type Schema = JsonSchema | boolean;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const ZOD_STRING_FORMATS: Record<string, string> = {
+  date: "z.iso.date()",
+  "date-time": "z.iso.datetime({ offset: true, local: true })",
+  time: "z.iso.time()",
+  uri: "z.url()",
+  email: "z.email()",
+  uuid: "z.uuid()",
+};
+
+/**
+ * Convert a name such as `product-row` or `product_row` to `ProductRow`.
+ */
+export function toTypeName(name: string): string {
+  const words = name.match(/[A-Za-z0-9]+/g) ?? [];
+  const typeName = words
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  return /^[A-Za-z]/.test(typeName) ? typeName : `T${typeName}`;
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Types generated for the `$defs` / `definitions` of a schema.
+ */
+interface Definitions {
+  /**
+   * Type names by `$ref`.
+   */
+  names: Map<string, string>;
+
+  /**
+   * Types whose schema constant is declared so far.
+   */
+  declared: Set<string>;
+
+  /**
+   * Set when the schema being declared refers to one that is not declared
+   * yet, itself included.
+   */
+  lazy: boolean;
+}
+
+function isObject(schema: Schema): schema is JsonSchema {
+  return typeof schema === "object" && schema !== null;
+}
+
+function members(schema: JsonSchema): Schema[] | undefined {
+  const union = schema.anyOf ?? schema.oneOf;
+  return Array.isArray(union) ? (union as Schema[]) : undefined;
+}
+
+function isNull(schema: Schema): boolean {
+  return isObject(schema) && schema.type === "null";
+}
+
+function schemaTypes(schema: JsonSchema): string[] {
+  if (Array.isArray(schema.type)) {
+    return schema.type as string[];
+  }
+  if (typeof schema.type === "string") {
+    return [schema.type];
+  }
+  if (schema.properties || schema.additionalProperties) {
+    return ["object"];
+  }
+  if (schema.items) {
+    return ["array"];
+  }
+  return [];
+}
+
+function properties(schema: JsonSchema): [string, Schema, boolean][] {
+  const required = new Set(
+    Array.isArray(schema.required) ? (schema.required as string[]) : [],
+  );
+  return Object.entries(
+    (schema.properties ?? {}) as Record<string, Schema>,
+  ).map(([name, property]) => [name, property, required.has(name)]);
+}
+
+function comment(schema: Schema, indent: string): string {
+  if (!isObject(schema) || typeof schema.description !== "string") {
+    return "";
+  }
+  // A "*/" in the text would end the comment
+  const lines = schema.description.replace(/\*\//g, "*\\/").split(/\r?\n/);
+  return lines.length === 1
+    ? `${indent}/** ${lines[0]} */\n`
+    : `${indent}/**\n${lines.map((line) => `${indent} * ${line}\n`).join("")}${indent} */\n`;
+}
+
+function tsType(schema: Schema, definitions: Definitions, indent = ""): string {
+  if (!isObject(schema)) {
+    return schema ? "unknown" : "never";
+  }
+  if (typeof schema.$ref === "string") {
+    return definitions.names.get(schema.$ref) ?? "unknown";
+  }
+  if ("const" in schema) {
+    return JSON.stringify(schema.const);
+  }
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+  const union = members(schema);
+  if (union) {
+    return union
+      .map((member) => tsType(member, definitions, indent))
+      .join(" | ");
+  }
+
+  const types = schemaTypes(schema);
+  if (types.length === 0) {
+    return "unknown";
+  }
+  return types
+    .map((type) => {
+      switch (type) {
+        case "string":
+        case "boolean":
+        case "null":
+          return type;
+        case "number":
+        case "integer":
+          return "number";
+        case "array": {
+          const item = tsType(
+            (schema.items ?? true) as Schema,
+            definitions,
+            indent,
+          );
+          return item.includes(" | ") ? `(${item})[]` : `${item}[]`;
+        }
+        case "object":
+          return tsObject(schema, definitions, indent);
+        default:
+          return "unknown";
+      }
+    })
+    .join(" | ");
+}
+
+function tsObject(
+  schema: JsonSchema,
+  definitions: Definitions,
+  indent: string,
+): string {
+  const entries = properties(schema);
+  if (entries.length === 0) {
+    const additional = schema.additionalProperties;
+    return `Record<string, ${
+      isObject((additional ?? true) as Schema)
+        ? tsType(additional as Schema, definitions, indent)
+        : "unknown"
+    }>`;
+  }
+  const inner = `${indent}  `;
+  const body = entries
+    .map(
+      ([name, property, required]) =>
+        `${comment(property, inner)}${inner}${propertyKey(name)}${
+          required ? "" : "?"
+        }: ${tsType(property, definitions, inner)};\n`,
+    )
+    .join("");
+  return `{\n${body}${indent}}`;
+}
+
+function zodUnion(expressions: string[]): string {
+  return expressions.length === 1
+    ? expressions[0]
+    : `z.union([${expressions.join(", ")}])`;
+}
+
+function zodNullable(
+  nonNull: Schema[],
+  hasNull: boolean,
+  toZod: (schema: Schema) => string,
+): string {
+  const expression = zodUnion(nonNull.map(toZod));
+  return hasNull ? `${expression}.nullable()` : expression;
+}
+
+function zodType(
+  schema: Schema,
+  definitions: Definitions,
+  indent = "",
+): string {
+  if (!isObject(schema)) {
+    return schema ? "z.unknown()" : "z.never()";
+  }
+  const toZod = (member: Schema) => zodType(member, definitions, indent);
+  if (typeof schema.$ref === "string") {
+    const name = definitions.names.get(schema.$ref);
+    if (!name) {
+      return "z.unknown()";
+    }
+    if (definitions.declared.has(name)) {
+      return `${name}Schema`;
+    }
+    // Self and forward references would be read before initialization
+    definitions.lazy = true;
+    return `z.lazy(() => ${name}Schema)`;
+  }
+  if ("const" in schema) {
+    return `z.literal(${JSON.stringify(schema.const)})`;
+  }
+  if (Array.isArray(schema.enum)) {
+    const values = schema.enum.filter((value) => value !== null);
+    const expression = values.every((value) => typeof value === "string")
+      ? `z.enum([${values.map((value) => JSON.stringify(value)).join(", ")}])`
+      : zodUnion(values.map((value) => `z.literal(${JSON.stringify(value)})`));
+    return values.length < schema.enum.length
+      ? `${expression}.nullable()`
+      : expression;
+  }
+  const union = members(schema);
+  if (union) {
+    const nonNull = union.filter((member) => !isNull(member));
+    return zodNullable(nonNull, nonNull.length < union.length, toZod);
+  }
+
+  const types = schemaTypes(schema);
+  if (types.length === 0) {
+    return "z.unknown()";
+  }
+  const nonNull = types.filter((type) => type !== "null");
+  if (nonNull.length !== 1) {
+    return zodNullable(
+      nonNull.map((type) => ({ ...schema, type })),
+      nonNull.length < types.length,
+      toZod,
+    );
+  }
+  if (nonNull.length < types.length) {
+    return `${toZod({ ...schema, type: nonNull[0] })}.nullable()`;
+  }
+
+  switch (nonNull[0]) {
+    case "string": {
+      const format = ZOD_STRING_FORMATS[schema.format as string];
+      if (format) {
+        return format;
+      }
+      return typeof schema.pattern === "string"
+        ? `z.string().regex(new RegExp(${JSON.stringify(schema.pattern)}))`
+        : "z.string()";
+    }
+    case "integer":
+      return "z.number().int()";
+    case "number":
+      return "z.number()";
+    case "boolean":
+      return "z.boolean()";
+    case "null":
+      return "z.null()";
+    case "array":
+      return `z.array(${toZod((schema.items ?? true) as Schema)})`;
+    case "object":
+      return zodObject(schema, definitions, indent);
+    default:
+      return "z.unknown()";
+  }
+}
+
+function zodObject(
+  schema: JsonSchema,
+  definitions: Definitions,
+  indent: string,
+): string {
+  const entries = properties(schema);
+  if (entries.length === 0) {
+    const additional = (schema.additionalProperties ?? true) as Schema;
+    return `z.record(z.string(), ${
+      isObject(additional)
+        ? zodType(additional, definitions, indent)
+        : "z.unknown()"
+    })`;
+  }
+  const inner = `${indent}  `;
+  const body = entries
+    .map(([name, property, required]) => {
+      let expression = zodType(property, definitions, inner);
+      if (isObject(property) && typeof property.description === "string") {
+        // Descriptions guide extraction, so keep them in the schema
+        expression += `.describe(${JSON.stringify(property.description)})`;
+      }
+      return `${inner}${propertyKey(name)}: ${expression}${
+        required ? "" : ".optional()"
+      },\n`;
+    })
+    .join("");
+  return `z.object({\n${body}${indent}})`;
+}
+
+function declaration(
+  name: string,
+  schema: Schema,
+  definitions: Definitions,
+): string {
+  const type =
+    isObject(schema) &&
+    schemaTypes(schema).join() === "object" &&
+    properties(schema).length > 0 &&
+    !schema.$ref
+      ? `export interface ${name} ${tsObject(schema, definitions, "")}\n`
+      : `export type ${name} = ${tsType(schema, definitions)};\n`;
+  definitions.lazy = false;
+  const zod = zodType(schema, definitions);
+  definitions.declared.add(name);
+  // TypeScript cannot infer the type of a schema referring to itself
+  const annotation = definitions.lazy ? `: z.ZodType<${name}>` : "";
+  return `${comment(schema, "")}${type}\nexport const ${name}Schema${annotation} = ${zod};\n`;
+}
+
+/**
+ * Generate TypeScript source declaring an interface (or type alias) and a
+ * Zod (`zod/v4`) schema for each JSON Schema. For a schema named `Product`,
+ * the file exports the `Product` type and the `ProductSchema` schema.
+ *
+ * Supports the JSON Schema features produced by Zod's `toJSONSchema` and
+ * {@link tableDescriptionToJsonSchema}: types, `properties` / `required`,
+ * `items`, `enum`, `const`, `anyOf` / `oneOf`, string formats and local
+ * `$defs` references. Anything else becomes `unknown`.
+ *
+ * The output is deterministic, so it can be committed and checked in CI.
+ *
+ * @param schemas - JSON Schemas by type name
+ * @param options - Generation options
+ * @returns The TypeScript source
+ *
+ * @example
+ * ```typescript
+ * const source = generateTypes({
+ *   Product: {
+ *     type: "object",
+ *     properties: { name: { type: "string" }, price: { type: "number" } },
+ *     required: ["name"],
+ *   },
+ * });
+ * // export interface Product { name: string; price?: number; }
+ * // export const ProductSchema = z.object({ ... });
+ * ```
+ */
+export function generateTypes(
+  schemas: Record<string, JsonSchema>,
+  options: GenerateTypesOptions = {},
+): string {
+  const declarations: string[] = [];
+  for (const [name, schema] of Object.entries(schemas)) {
+    const definitions: Definitions = {
+      names: new Map([["#", name]]),
+      declared: new Set(),
+      lazy: false,
+    };
+    const defs = Object.entries({
+      ...((schema.definitions ?? {}) as Record<string, Schema>),
+      ...((schema.$defs ?? {}) as Record<string, Schema>),
+    });
+    for (const [key] of defs) {
+      const ref = `#/${schema.$defs && key in (schema.$defs as object) ? "$defs" : "definitions"}/${key}`;
+      definitions.names.set(ref, `${name}${toTypeName(key)}`);
+    }
+    for (const [key, definition] of defs) {
+      declarations.push(
+        declaration(`${name}${toTypeName(key)}`, definition, definitions),
+      );
+    }
+    declarations.push(declaration(name, schema, definitions));
+  }
+
+  const header = options.header
+    ? `${options.header
+        .split(/\r?\n/)
+        .map((line) => `// ${line}`)
+        .join("\n")}\n\n`
+    : "";
+  return `${header}import { z } from "zod/v4";\n\n${declarations.join("\n")}`;
+}
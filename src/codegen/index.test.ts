@@ -0,0 +1,211 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+import { z } from "zod/v4";
+import {
+  generateTypes,
+  generateTypesFromFiles,
+  schemaFromSamples,
+  schemasFromZodModule,
+} from "./index";
+
+// Evaluate generated source, resolving its `zod/v4` import
+const evaluate = (source: string): Record<string, unknown> => {
+  const exports: Record<string, unknown> = {};
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS },
+  });
+  new Function("require", "exports", outputText)(() => ({ z }), exports);
+  return exports;
+};
+
+describe("codegen", () => {
+  it("should generate interfaces and Zod schemas from a JSON Schema", () => {
+    const source = generateTypes(
+      {
+        Product: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Product name" },
+            price: { type: ["number", "null"] },
+            status: { enum: ["active", "sold out"] },
+            tags: { type: "array", items: { type: "string" } },
+            "list price": { type: "integer" },
+            seller: { $ref: "#/$defs/seller" },
+          },
+          required: ["name", "price", "status"],
+          $defs: {
+            seller: {
+              type: "object",
+              properties: { url: { type: "string", format: "uri" } },
+              required: ["url"],
+            },
+          },
+        },
+      },
+      { header: "Generated. Do not edit." },
+    );
+
+    expect(source).toBe(`// Generated. Do not edit.
+
+import { z } from "zod/v4";
+
+export interface ProductSeller {
+  url: string;
+}
+
+export const ProductSellerSchema = z.object({
+  url: z.url(),
+});
+
+export interface Product {
+  /** Product name */
+  name: string;
+  price: number | null;
+  status: "active" | "sold out";
+  tags?: string[];
+  "list price"?: number;
+  seller?: ProductSeller;
+}
+
+export const ProductSchema = z.object({
+  name: z.string().describe("Product name"),
+  price: z.number().nullable(),
+  status: z.enum(["active", "sold out"]),
+  tags: z.array(z.string()).optional(),
+  "list price": z.number().int().optional(),
+  seller: ProductSellerSchema.optional(),
+});
+`);
+  });
+
+  it("should generate type aliases for non-object schemas", () => {
+    expect(
+      generateTypes({
+        Products: {
+          type: "array",
+          items: { anyOf: [{ type: "string" }, { type: "number" }] },
+        },
+      }),
+    ).toBe(`import { z } from "zod/v4";
+
+export type Products = (string | number)[];
+
+export const ProductsSchema = z.array(z.union([z.string(), z.number()]));
+`);
+  });
+
+  it("should infer the row schema from sample app output", () => {
+    const schema = schemaFromSamples([
+      {
+        success: true,
+        data: [
+          { Name: "A", Price: 1.5 },
+          { Name: "B", Price: null },
+        ],
+      },
+      { columns: ["Name", "Price"], tableData: [["C", 2]] },
+    ]);
+
+    expect(schema).toEqual({
+      type: "object",
+      properties: {
+        Name: { type: "string" },
+        Price: { type: ["number", "null"] },
+      },
+      required: ["Name", "Price"],
+    });
+    expect(() => schemaFromSamples([{ rows: [] }])).toThrow(
+      "Unrecognized sample",
+    );
+  });
+
+  it("should generate a row schema that parses its own samples", () => {
+    const rows = [
+      { sku: "1", url: "https://a.com", price: 2.5, seen: "2024-01-01" },
+      { sku: "", url: "", price: "", seen: "2024-01-02 10:00:00" },
+      { sku: null, url: null, price: null },
+    ];
+    const { RowSchema } = evaluate(
+      generateTypes({ Row: schemaFromSamples([rows]) }),
+    ) as { RowSchema: z.ZodType };
+
+    for (const row of rows) {
+      expect(RowSchema.safeParse(row).error).toBeUndefined();
+    }
+    expect(RowSchema.safeParse({ ...rows[0], sku: "x" }).success).toBe(false);
+  });
+
+  it("should generate lazy schemas for recursive definitions", () => {
+    const Node = z.object({
+      name: z.string(),
+      get children() {
+        return z.array(Node);
+      },
+    });
+    const source = generateTypes({ Tree: z.toJSONSchema(Node) });
+    const { TreeSchema } = evaluate(source) as { TreeSchema: z.ZodType };
+
+    expect(source).toContain("z.lazy(() => TreeSchema)");
+    expect(source).toContain("export const TreeSchema: z.ZodType<Tree> =");
+    expect(
+      TreeSchema.safeParse({
+        name: "root",
+        children: [{ name: "leaf", children: [] }],
+      }).success,
+    ).toBe(true);
+    expect(
+      TreeSchema.safeParse({ name: "root", children: [{ name: 1 }] }).success,
+    ).toBe(false);
+  });
+
+  it("should escape comment ends in descriptions", () => {
+    expect(
+      generateTypes({
+        Name: { type: "string", description: "Uses */ inside" },
+      }),
+    ).toContain("/** Uses *\\/ inside */");
+  });
+
+  it("should convert the Zod schemas exported by a module", async () => {
+    const schemas = await schemasFromZodModule({
+      ProductSchema: z.object({ name: z.string(), sku: z.string().optional() }),
+      Seller: z.object({ id: z.number().int() }),
+      VERSION: 2,
+    });
+
+    expect(Object.keys(schemas)).toEqual(["Product", "Seller"]);
+    expect(generateTypes(schemas)).toContain(`export interface Product {
+  name: string;
+  sku?: string;
+}`);
+  });
+
+  it("should read JSON Schema and sample files", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "nextrows-codegen-"));
+    try {
+      const schemaFile = join(directory, "seller.schema.json");
+      const sampleFile = join(directory, "product-row.json");
+      await writeFile(
+        schemaFile,
+        JSON.stringify({
+          type: "object",
+          properties: { id: { type: "string" } },
+        }),
+      );
+      await writeFile(sampleFile, JSON.stringify([{ name: "A" }]));
+
+      const source = await generateTypesFromFiles([schemaFile, sampleFile]);
+
+      expect(source).toMatch(
+        /^\/\/ Generated by `nextrows codegen` from seller\.schema\.json, product-row\.json\. Do not edit\./,
+      );
+      expect(source).toContain("export interface Seller {");
+      expect(source).toContain("export const ProductRowSchema = z.object({");
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,8 @@
+export { type GenerateTypesOptions, generateTypes } from "./generate";
+export {
+  type CodegenInputFormat,
+  type GenerateTypesFromFilesOptions,
+  generateTypesFromFiles,
+  schemaFromSamples,
+  schemasFromZodModule,
+} from "./sources";
@@ -0,0 +1,211 @@
+import type { JsonSchema } from "../api/extract";
+import { isZodSchema } from "../schema";
+import { convertToJsonSchema } from "../schema/json-schema";
+import { describeTable, tableDescriptionToJsonSchema } from "../table";
+import { type TableData, tableToRows } from "../table/convert";
+import type { Row } from "../table/writers";
+import { generateTypes, toTypeName } from "./generate";
+
+/**
+ * Kind of input the code generator reads.
+ * - `"json-schema"` - A JSON Schema file
+ * - `"zod"` - A JavaScript module exporting Zod schemas
+ * - `"samples"` - `RunAppJsonResponse`, `RunAppTableResponse` or
+ *   `RunAppTableData` payloads, or arrays of rows
+ */
+export type CodegenInputFormat = "json-schema" | "zod" | "samples";
+
+/**
+ * Options for {@link generateTypesFromFiles}.
+ */
+export interface GenerateTypesFromFilesOptions {
+  /**
+   * Kind of every input file. Detected from the file extension and content
+   * by default.
+   */
+  from?: CodegenInputFormat;
+
+  /**
+   * Type name for the rows of sample files, or for a single JSON Schema
+   * file.
+   * @default The file name in PascalCase, e.g. `ProductRow` for
+   * `product-row.json` or `product-row.schema.json`
+   */
+  name?: string;
+}
+
+function isTableData(value: unknown): value is TableData<unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    Array.isArray((value as TableData<unknown>).columns) &&
+    Array.isArray((value as TableData<unknown>).tableData)
+  );
+}
+
+function sampleRows(sample: unknown): Row[] {
+  if (Array.isArray(sample)) {
+    return sample as Row[];
+  }
+  if (isTableData(sample)) {
+    return tableToRows(sample);
+  }
+  const data = (sample as { data?: unknown } | null)?.data;
+  if (Array.isArray(data)) {
+    return data as Row[];
+  }
+  if (isTableData(data)) {
+    return tableToRows(data);
+  }
+  throw new TypeError(
+    "Unrecognized sample: expected a RunAppJsonResponse, RunAppTableResponse, RunAppTableData or an array of rows",
+  );
+}
+
+/**
+ * Infer the JSON Schema of one row from sample app output. Rows of all
+ * samples are combined, so columns that are null or empty in any sample
+ * accept `null` and `""`, and columns missing from any sample are optional.
+ *
+ * @param samples - `RunAppJsonResponse`, `RunAppTableResponse` or
+ * `RunAppTableData` payloads, or arrays of rows
+ * @returns The JSON Schema of a row
+ * @throws {TypeError} When a sample has none of these shapes
+ */
+export function schemaFromSamples(samples: unknown[]): JsonSchema {
+  const rows = samples.flatMap(sampleRows);
+  const schema = tableDescriptionToJsonSchema(describeTable(rows));
+  return schema.items as JsonSchema;
+}
+
+/**
+ * Convert the Zod schemas exported by a module to JSON Schemas, named after
+ * their exports without a `Schema` suffix (`ProductSchema` becomes
+ * `Product`). Other exports are ignored.
+ *
+ * @param exports - The module namespace, e.g. from `await import(path)`
+ * @returns JSON Schemas by type name
+ */
+export async function schemasFromZodModule(
+  exports: Record<string, unknown>,
+): Promise<Record<string, JsonSchema>> {
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, value] of Object.entries(exports)) {
+    if (isZodSchema(value)) {
+      const typeName = toTypeName(
+        name === "default" ? "Default" : name.replace(/Schema$/, "") || name,
+      );
+      schemas[typeName] = await convertToJsonSchema(value);
+    }
+  }
+  return schemas;
+}
+
+function isJsonSchema(value: unknown): boolean {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const object = value as Record<string, unknown>;
+  return (
+    !("success" in object) &&
+    !isTableData(object) &&
+    ("$schema" in object ||
+      "properties" in object ||
+      "items" in object ||
+      "anyOf" in object ||
+      typeof object.type === "string" ||
+      Array.isArray(object.type))
+  );
+}
+
+async function readFormat(
+  path: string,
+  from: CodegenInputFormat | undefined,
+): Promise<{ format: CodegenInputFormat; content?: unknown }> {
+  if (from === "zod" || (!from && /\.[cm]?[jt]s$/.test(path))) {
+    return { format: "zod" };
+  }
+  const { readFile } = await import("node:fs/promises");
+  const content: unknown = JSON.parse(await readFile(path, "utf8"));
+  return {
+    format: from ?? (isJsonSchema(content) ? "json-schema" : "samples"),
+    content,
+  };
+}
+
+async function importModule(path: string): Promise<Record<string, unknown>> {
+  const { resolve } = await import("node:path");
+  const { pathToFileURL } = await import("node:url");
+  try {
+    return await import(pathToFileURL(resolve(path)).href);
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code === "ERR_UNKNOWN_FILE_EXTENSION") {
+      throw new Error(
+        `Cannot import ${path}. Compile it to JavaScript first, or run the generator with a TypeScript loader such as tsx`,
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generate TypeScript interfaces and Zod schemas from JSON Schema files,
+ * modules exporting Zod schemas and sample app output files.
+ *
+ * Every JSON Schema file and every Zod export produces one type. All sample
+ * files are combined into one row type. Node.js only.
+ *
+ * @param paths - Input files
+ * @param options - Input format and type name
+ * @returns The TypeScript source, as returned by {@link generateTypes}
+ *
+ * @example
+ * ```typescript
+ * const source = await generateTypesFromFiles(
+ *   ["samples/products-1.json", "samples/products-2.json"],
+ *   { name: "ProductRow" },
+ * );
+ * await writeFile("src/apps/product-row.ts", source);
+ * ```
+ */
+export async function generateTypesFromFiles(
+  paths: string[],
+  options: GenerateTypesFromFilesOptions = {},
+): Promise<string> {
+  const { basename } = await import("node:path");
+  const nameOf = (path: string) =>
+    toTypeName(basename(path).replace(/(\.schema)?\.\w+$/, ""));
+
+  const schemas: Record<string, JsonSchema> = {};
+  const samples: unknown[] = [];
+  let samplesName: string | undefined;
+  for (const path of paths) {
+    const { format, content } = await readFormat(path, options.from);
+    if (format === "zod") {
+      Object.assign(
+        schemas,
+        await schemasFromZodModule(await importModule(path)),
+      );
+    } else if (format === "json-schema") {
+      schemas[
+        paths.length === 1 && options.name ? options.name : nameOf(path)
+      ] = content as JsonSchema;
+    } else {
+      samples.push(content);
+      samplesName ??= options.name ?? nameOf(path);
+    }
+  }
+  if (samplesName) {
+    schemas[samplesName] = schemaFromSamples(samples);
+  }
+  if (Object.keys(schemas).length === 0) {
+    throw new Error(`No schemas found in ${paths.join(", ")}`);
+  }
+
+  return generateTypes(schemas, {
+    header: `Generated by \`nextrows codegen\` from ${paths
+      .map((path) => basename(path))
+      .join(", ")}. Do not edit.`,
+  });
+}
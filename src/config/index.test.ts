@@ -0,0 +1,136 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import nock from "nock";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Nextrows } from "../client";
+import { ConfigurationError } from "../errors";
+import { resolveConfig } from "./index";
+
+describe("configuration", () => {
+  let directory: string;
+  let configFile: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "nextrows-config-"));
+    configFile = join(directory, "config.json");
+    await writeFile(
+      configFile,
+      JSON.stringify({
+        default: { apiKey: "sk-nr-production" },
+        staging: {
+          apiKey: "sk-nr-staging",
+          baseUrl: "https://staging.nextrows.test",
+          timeout: 60000,
+        },
+        broken: { apiKey: "nr_live_123" },
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    nock.cleanAll();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should create a client from environment variables", async () => {
+    nock("https://eu.nextrows.test")
+      .get("/v1/credits")
+      .matchHeader("Authorization", "Bearer sk-nr-from-env")
+      .reply(200, { success: true, data: { credits: 5 } });
+
+    const client = await Nextrows.fromEnv({
+      env: {
+        NEXTROWS_API_KEY: "sk-nr-from-env",
+        NEXTROWS_BASE_URL: "https://eu.nextrows.test",
+        NEXTROWS_TIMEOUT: "45000",
+      },
+    });
+
+    expect(client.apiKey).toBe("sk-nr-from-env");
+    expect((await client.getCredits()).data).toEqual({ credits: 5 });
+  });
+
+  it("should name the source of invalid values", async () => {
+    const error = await resolveConfig(
+      {},
+      { env: { NEXTROWS_API_KEY: "sk-nr-key", NEXTROWS_TIMEOUT: "30s" } },
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(error).toMatchObject({
+      source: "the NEXTROWS_TIMEOUT environment variable",
+      message: expect.stringContaining('Invalid timeout "30s"'),
+    });
+    await expect(
+      resolveConfig({}, { env: { NEXTROWS_API_KEY: "" } }),
+    ).rejects.toThrow(
+      "The API key from the NEXTROWS_API_KEY environment variable is empty",
+    );
+    await expect(resolveConfig({}, { env: {} })).rejects.toThrow(
+      "No API key found. Set NEXTROWS_API_KEY",
+    );
+  });
+
+  it("should check the API key prefix up front", async () => {
+    expect(() => new Nextrows({ apiKey: "my-key" })).toThrow(
+      'The API key from the apiKey option is not a Nextrows API key (expected "sk-nr-"',
+    );
+    const error = await Nextrows.fromEnv({
+      profile: "broken",
+      configFile,
+    }).catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect((error as ConfigurationError).source).toBe(
+      `profile "broken" in ${configFile}`,
+    );
+    expect((error as Error).message).not.toContain("nr_live_123");
+  });
+
+  it("should fall back to the default profile after environment variables", async () => {
+    await expect(resolveConfig({}, { env: {}, configFile })).resolves.toEqual({
+      apiKey: "sk-nr-production",
+      profile: "default",
+      sources: { apiKey: `profile "default" in ${configFile}` },
+    });
+    await expect(
+      resolveConfig(
+        {},
+        { env: { NEXTROWS_API_KEY: "sk-nr-from-env" }, configFile },
+      ),
+    ).resolves.toMatchObject({
+      apiKey: "sk-nr-from-env",
+      sources: { apiKey: "the NEXTROWS_API_KEY environment variable" },
+    });
+  });
+
+  it("should prefer a selected profile over environment variables", async () => {
+    const config = await resolveConfig(
+      { timeout: 1000 },
+      {
+        env: {
+          NEXTROWS_API_KEY: "sk-nr-production",
+          NEXTROWS_PROFILE: "staging",
+          NEXTROWS_CONFIG: configFile,
+        },
+      },
+    );
+
+    expect(config).toEqual({
+      apiKey: "sk-nr-staging",
+      baseUrl: "https://staging.nextrows.test",
+      timeout: 1000,
+      profile: "staging",
+      sources: {
+        apiKey: `profile "staging" in ${configFile}`,
+        baseUrl: `profile "staging" in ${configFile}`,
+        timeout: "the timeout option",
+      },
+    });
+    await expect(
+      resolveConfig({}, { env: {}, profile: "prod", configFile }),
+    ).rejects.toThrow(
+      `Profile "prod" (from the profile option) was not found in ${configFile}. Available profiles: default, staging, broken`,
+    );
+  });
+});
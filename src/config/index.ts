@@ -0,0 +1,299 @@
+import { ConfigurationError } from "../errors";
+
+/**
+ * Prefix of every Nextrows API key.
+ */
+export const API_KEY_PREFIX = "sk-nr-";
+
+/**
+ * Client settings stored under a profile name in the config file.
+ *
+ * @example
+ * ```json
+ * {
+ *   "default": { "apiKey": "sk-nr-production-key" },
+ *   "staging": {
+ *     "apiKey": "sk-nr-staging-key",
+ *     "baseUrl": "https://staging.api.nextrows.com",
+ *     "timeout": 60000
+ *   }
+ * }
+ * ```
+ */
+export interface NextrowsProfile {
+  apiKey?: string;
+  baseUrl?: string;
+  timeout?: number;
+}
+
+/**
+ * Where {@link resolveConfig} looks for settings.
+ */
+export interface ConfigSourceOptions {
+  /**
+   * Profile to read from the config file. A selected profile takes
+   * precedence over environment variables, so a stray `NEXTROWS_API_KEY`
+   * cannot replace the key of the profile you asked for.
+   * @default $NEXTROWS_PROFILE, else "default" (when present)
+   */
+  profile?: string;
+
+  /**
+   * Environment variables to read.
+   * @default process.env
+   */
+  env?: Record<string, string | undefined>;
+
+  /**
+   * Path of the config file.
+   * @default $NEXTROWS_CONFIG, else `$XDG_CONFIG_HOME/nextrows/config.json`
+   * or `~/.config/nextrows/config.json`
+   */
+  configFile?: string;
+}
+
+/**
+ * Settings resolved from options, environment variables and the config
+ * file, with where each came from.
+ */
+export interface ResolvedConfig extends NextrowsProfile {
+  apiKey: string;
+
+  /**
+   * The profile that was read, if any.
+   */
+  profile?: string;
+
+  /**
+   * Where each setting came from, e.g. `the NEXTROWS_API_KEY environment
+   * variable`.
+   */
+  sources: { [K in keyof NextrowsProfile]?: string };
+}
+
+const ENV_VARIABLES = {
+  apiKey: "NEXTROWS_API_KEY",
+  baseUrl: "NEXTROWS_BASE_URL",
+  timeout: "NEXTROWS_TIMEOUT",
+} as const;
+
+/**
+ * Check that an API key is set and has the `sk-nr-` prefix.
+ *
+ * @param apiKey - The API key
+ * @param source - Where the key came from, named in the error message
+ * @returns The key
+ * @throws {ConfigurationError} When the key is empty or malformed. The key
+ * itself is never included in the message.
+ */
+export function validateApiKey(apiKey: unknown, source: string): string {
+  if (typeof apiKey !== "string" || apiKey.trim() === "") {
+    throw new ConfigurationError(`The API key from ${source} is empty`, source);
+  }
+  if (!apiKey.startsWith(API_KEY_PREFIX) || /\s/.test(apiKey)) {
+    throw new ConfigurationError(
+      `The API key from ${source} is not a Nextrows API key (expected "${API_KEY_PREFIX}" followed by the key, without spaces)`,
+      source,
+    );
+  }
+  return apiKey;
+}
+
+/**
+ * Mask an API key for display, keeping the prefix and the last four
+ * characters so that keys can be told apart: `sk-nr-****wxyz`.
+ */
+export function redactApiKey(apiKey: string): string {
+  const visible = apiKey.length >= API_KEY_PREFIX.length + 12 ? 4 : 0;
+  return `${API_KEY_PREFIX}****${visible ? apiKey.slice(-visible) : ""}`;
+}
+
+function validateBaseUrl(value: unknown, source: string): string {
+  let url: URL | undefined;
+  try {
+    url = new URL(String(value));
+  } catch {
+    url = undefined;
+  }
+  if (
+    typeof value !== "string" ||
+    !url ||
+    (url.protocol !== "https:" && url.protocol !== "http:")
+  ) {
+    throw new ConfigurationError(
+      `Invalid base URL ${JSON.stringify(value)} from ${source} (expected an http or https URL)`,
+      source,
+    );
+  }
+  return value;
+}
+
+function validateTimeout(value: unknown, source: string): number {
+  const timeout =
+    typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (
+    typeof timeout !== "number" ||
+    !Number.isFinite(timeout) ||
+    timeout <= 0
+  ) {
+    throw new ConfigurationError(
+      `Invalid timeout ${JSON.stringify(value)} from ${source} (expected a positive number of milliseconds)`,
+      source,
+    );
+  }
+  return timeout;
+}
+
+const VALIDATORS: {
+  [K in keyof NextrowsProfile]-?: (
+    value: unknown,
+    source: string,
+  ) => NonNullable<NextrowsProfile[K]>;
+} = {
+  apiKey: validateApiKey,
+  baseUrl: validateBaseUrl,
+  timeout: validateTimeout,
+};
+
+function processEnv(): Record<string, string | undefined> {
+  return typeof process === "undefined" ? {} : process.env;
+}
+
+function defaultConfigFile(
+  env: Record<string, string | undefined>,
+): string | undefined {
+  if (env.XDG_CONFIG_HOME) {
+    return `${env.XDG_CONFIG_HOME}/nextrows/config.json`;
+  }
+  const home = env.HOME ?? env.USERPROFILE;
+  return home ? `${home}/.config/nextrows/config.json` : undefined;
+}
+
+async function readConfigFile(
+  path: string,
+  required: boolean,
+): Promise<Record<string, unknown> | undefined> {
+  let content: string;
+  try {
+    const { readFile } = await import("node:fs/promises");
+    content = await readFile(path, "utf8");
+  } catch (error) {
+    if (!required && (error as { code?: string }).code === "ENOENT") {
+      return undefined;
+    }
+    throw new ConfigurationError(
+      `Could not read the config file ${path}: ${(error as Error).message}`,
+      path,
+      { cause: error },
+    );
+  }
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (error) {
+    throw new ConfigurationError(
+      `The config file ${path} is not valid JSON: ${(error as Error).message}`,
+      path,
+      { cause: error },
+    );
+  }
+  if (config === null || typeof config !== "object" || Array.isArray(config)) {
+    throw new ConfigurationError(
+      `The config file ${path} must contain an object of profiles`,
+      path,
+    );
+  }
+  return config as Record<string, unknown>;
+}
+
+/**
+ * Resolve client settings from explicit options, environment variables
+ * (`NEXTROWS_API_KEY`, `NEXTROWS_BASE_URL`, `NEXTROWS_TIMEOUT`) and a named
+ * profile of the config file, and validate them.
+ *
+ * Explicit options win. A profile selected with `profile` or
+ * `NEXTROWS_PROFILE` comes next, then environment variables, then the
+ * `default` profile. Node.js is needed to read the config file; elsewhere,
+ * only options and `env` are used.
+ *
+ * @param options - Explicit settings, which override every other source
+ * @param sources - Profile, environment and config file location
+ * @returns The settings and where each came from
+ * @throws {ConfigurationError} When no API key is found, a value is invalid,
+ * or the selected profile or config file does not exist. The message names
+ * where the value came from.
+ */
+export async function resolveConfig(
+  options: NextrowsProfile = {},
+  sources: ConfigSourceOptions = {},
+): Promise<ResolvedConfig> {
+  const env = sources.env ?? processEnv();
+  const selected =
+    sources.profile !== undefined
+      ? { name: sources.profile, source: "the profile option" }
+      : env.NEXTROWS_PROFILE
+        ? {
+            name: env.NEXTROWS_PROFILE,
+            source: "the NEXTROWS_PROFILE environment variable",
+          }
+        : undefined;
+  const explicitFile = sources.configFile ?? env.NEXTROWS_CONFIG;
+  const path = explicitFile ?? defaultConfigFile(env);
+
+  const config =
+    path && (selected || typeof process !== "undefined")
+      ? await readConfigFile(path, explicitFile !== undefined)
+      : undefined;
+  const profileName = selected?.name ?? "default";
+  const entry = config?.[profileName];
+  if (selected && entry === undefined) {
+    throw new ConfigurationError(
+      `Profile "${selected.name}" (from ${selected.source}) was not found in ${
+        path ?? "the config file"
+      }${config ? `. Available profiles: ${Object.keys(config).join(", ")}` : ""}`,
+      selected.source,
+    );
+  }
+  const profileSource = `profile "${profileName}" in ${path}`;
+  if (
+    entry !== undefined &&
+    (entry === null || typeof entry !== "object" || Array.isArray(entry))
+  ) {
+    throw new ConfigurationError(
+      `${profileSource[0].toUpperCase()}${profileSource.slice(1)} must be an object`,
+      profileSource,
+    );
+  }
+  const profile = entry as Record<string, unknown> | undefined;
+
+  const resolved: ResolvedConfig = { apiKey: "", sources: {} };
+  for (const key of Object.keys(VALIDATORS) as (keyof NextrowsProfile)[]) {
+    const fromProfile: [unknown, string] = [profile?.[key], profileSource];
+    const fromEnv: [unknown, string] = [
+      env[ENV_VARIABLES[key]],
+      `the ${ENV_VARIABLES[key]} environment variable`,
+    ];
+    const candidates: [unknown, string][] = [
+      [options[key], `the ${key} option`],
+      ...(selected ? [fromProfile, fromEnv] : [fromEnv, fromProfile]),
+    ];
+    const found = candidates.find(([value]) => value !== undefined);
+    if (found) {
+      const [value, source] = found;
+      Object.assign(resolved, { [key]: VALIDATORS[key](value, source) });
+      resolved.sources[key] = source;
+    }
+  }
+  if (!resolved.sources.apiKey) {
+    throw new ConfigurationError(
+      `No API key found. Set NEXTROWS_API_KEY, add an apiKey to profile "${profileName}" in ${
+        path ?? "~/.config/nextrows/config.json"
+      }, or pass apiKey`,
+      "the environment",
+    );
+  }
+  if (profile) {
+    resolved.profile = profileName;
+  }
+  return resolved;
+}
@@ -0,0 +1,144 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { inspect } from "node:util";
+import { describe, expect, it } from "vitest";
+import { Nextrows } from "../client";
+import { AuthenticationError, ConfigurationError } from "../errors";
+import { FakeNextrowsServer } from "../testing";
+import { type CredentialsContext, credentialsFromFile } from "./index";
+
+describe("credentials", () => {
+  it("should call the provider once and share the key", async () => {
+    const server = new FakeNextrowsServer({ apiKey: "sk-nr-vault-key" });
+    const calls: CredentialsContext[] = [];
+    const client = server.createClient({
+      credentials: async (context) => {
+        calls.push(context);
+        return "sk-nr-vault-key";
+      },
+    });
+
+    expect(client.apiKey).toBeUndefined();
+    await Promise.all([client.getCredits(), client.getCredits()]);
+    await client.getCredits();
+
+    expect(calls).toEqual([{ refresh: false }]);
+    expect(client.apiKey).toBe("sk-nr-vault-key");
+  });
+
+  it("should refresh the key after a 401 and resend the request", async () => {
+    const server = new FakeNextrowsServer({ apiKey: "sk-nr-rotated" });
+    const keys = ["sk-nr-revoked", "sk-nr-rotated"];
+    const calls: boolean[] = [];
+    const client = server.createClient({
+      credentials: ({ refresh }) => {
+        calls.push(refresh);
+        return keys[calls.length - 1];
+      },
+    });
+
+    await expect(client.getCredits()).resolves.toMatchObject({
+      success: true,
+    });
+    expect(calls).toEqual([false, true]);
+    expect(server.requests.map((request) => request.headers)).toEqual([
+      expect.objectContaining({ Authorization: "Bearer sk-nr-revoked" }),
+      expect.objectContaining({ Authorization: "Bearer sk-nr-rotated" }),
+    ]);
+
+    const stale = new FakeNextrowsServer({ apiKey: "sk-nr-other" });
+    await expect(
+      stale.createClient({ apiKey: "sk-nr-static" }).getCredits(),
+    ).rejects.toThrow(AuthenticationError);
+    expect(stale.requests).toHaveLength(1);
+  });
+
+  it("should fetch a new key when the previous one expires", async () => {
+    const server = new FakeNextrowsServer();
+    let calls = 0;
+    const client = server.createClient({
+      credentials: () => {
+        calls++;
+        return { apiKey: `sk-nr-key-${calls}`, expiresAt: Date.now() - 1 };
+      },
+    });
+
+    await client.getCredits();
+    await client.getCredits();
+
+    expect(calls).toBe(2);
+    expect(server.requests[1].headers?.Authorization).toBe(
+      "Bearer sk-nr-key-2",
+    );
+  });
+
+  it("should redact the key when the client is logged or serialized", () => {
+    const client = new Nextrows({ apiKey: "sk-nr-0123456789abcdef" });
+
+    expect(JSON.parse(JSON.stringify(client))).toEqual({
+      apiKey: "sk-nr-****cdef",
+      baseUrl: "https://api.nextrows.com",
+      timeout: 30000,
+    });
+    expect(inspect(client)).toContain("sk-nr-****cdef");
+    expect(inspect(client, { depth: 10, showHidden: true })).not.toContain(
+      "0123456789abcdef",
+    );
+    expect(client.apiKey).toBe("sk-nr-0123456789abcdef");
+  });
+
+  it("should reject invalid keys and option combinations", async () => {
+    const server = new FakeNextrowsServer();
+
+    await expect(
+      server.createClient({ credentials: () => "not-a-key" }).getCredits(),
+    ).rejects.toThrow(
+      "The API key from the credentials provider is not a Nextrows API key",
+    );
+    await expect(
+      server
+        .createClient({
+          credentials: () => Promise.reject(new Error("vault sealed")),
+        })
+        .getCredits(),
+    ).rejects.toMatchObject({
+      name: "ConfigurationError",
+      message: "The credentials provider failed: vault sealed",
+      source: "the credentials provider",
+    });
+    expect(
+      () => new Nextrows({ apiKey: "sk-nr-key", credentials: () => "" }),
+    ).toThrow("Pass either apiKey or credentials, not both");
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it("should read rotated keys from a file", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "nextrows-credentials-"));
+    try {
+      const keyFile = join(directory, "api-key");
+      await writeFile(keyFile, "sk-nr-first\n");
+      let server = new FakeNextrowsServer({ apiKey: "sk-nr-first" });
+      const client = new Nextrows({
+        credentials: credentialsFromFile(keyFile),
+        transport: { request: (request) => server.request(request) },
+      });
+
+      await client.getCredits();
+      expect(client.apiKey).toBe("sk-nr-first");
+
+      // The key is rotated: the file is rewritten and the old key revoked
+      await writeFile(keyFile, "sk-nr-second\n");
+      server = new FakeNextrowsServer({ apiKey: "sk-nr-second" });
+      await client.getCredits();
+
+      expect(client.apiKey).toBe("sk-nr-second");
+      expect(server.requests).toHaveLength(2);
+      await expect(
+        credentialsFromFile(join(directory, "missing"))({ refresh: false }),
+      ).rejects.toThrow(ConfigurationError);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,218 @@
+import { validateApiKey } from "../config";
+import { ConfigurationError, NextrowsError } from "../errors";
+import type { Transport, TransportRequest } from "../transport";
+
+/**
+ * An API key returned by a {@link CredentialsProvider}, with an optional
+ * expiry.
+ */
+export interface Credentials {
+  apiKey: string;
+
+  /**
+   * When the key must be fetched again, as a date or a timestamp in
+   * milliseconds. The key is otherwise reused until the API rejects it.
+   */
+  expiresAt?: Date | number;
+}
+
+/**
+ * Why a {@link CredentialsProvider} is called.
+ */
+export interface CredentialsContext {
+  /**
+   * `true` when the API rejected the previous key with a 401 response, so
+   * the provider should bypass its own cache and return a new key.
+   */
+  refresh: boolean;
+}
+
+/**
+ * Supplies the API key, e.g. from a secrets vault or a rotated file. Called
+ * before the first request, when the returned key expires and when the API
+ * rejects it.
+ */
+export type CredentialsProvider = (
+  context: CredentialsContext,
+) => string | Credentials | Promise<string | Credentials>;
+
+/**
+ * Caches the key returned by a credentials provider. Concurrent requests
+ * share a single call to the provider.
+ */
+export class CredentialsCache {
+  private cached: { apiKey: string; expiresAt: number } | undefined;
+  private pending: Promise<string> | undefined;
+
+  /**
+   * @param provider - Function supplying the key
+   * @param apiKey - A key to use until it is rejected, if already known
+   */
+  constructor(
+    private readonly provider: CredentialsProvider,
+    apiKey?: string,
+  ) {
+    if (apiKey !== undefined) {
+      this.cached = { apiKey, expiresAt: Number.POSITIVE_INFINITY };
+    }
+  }
+
+  /**
+   * The last key returned by the provider.
+   */
+  get current(): string | undefined {
+    return this.cached?.apiKey;
+  }
+
+  /**
+   * The cached key, or a new key from the provider when there is none or it
+   * has expired.
+   */
+  async get(): Promise<string> {
+    if (this.cached && this.cached.expiresAt > Date.now()) {
+      return this.cached.apiKey;
+    }
+    return this.load(false);
+  }
+
+  /**
+   * A key replacing `rejected`, which the API refused. When another request
+   * already refreshed the key, that key is returned without calling the
+   * provider again.
+   */
+  async refresh(rejected: string): Promise<string> {
+    const current = this.pending ? await this.pending : this.cached?.apiKey;
+    if (current !== undefined && current !== rejected) {
+      return current;
+    }
+    this.cached = undefined;
+    return this.load(true);
+  }
+
+  private load(refresh: boolean): Promise<string> {
+    this.pending ??= (async () => {
+      try {
+        let result: string | Credentials;
+        try {
+          result = await this.provider({ refresh });
+        } catch (error) {
+          if (error instanceof NextrowsError) {
+            throw error;
+          }
+          throw new ConfigurationError(
+            `The credentials provider failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            "the credentials provider",
+            { cause: error },
+          );
+        }
+        const { apiKey, expiresAt } =
+          typeof result === "string" ? { apiKey: result } : result;
+        validateApiKey(apiKey, "the credentials provider");
+        this.cached = {
+          apiKey,
+          expiresAt:
+            expiresAt === undefined
+              ? Number.POSITIVE_INFINITY
+              : Number(expiresAt),
+        };
+        return apiKey;
+      } finally {
+        this.pending = undefined;
+      }
+    })();
+    return this.pending;
+  }
+}
+
+function hasAuthorization(request: TransportRequest): boolean {
+  return Object.keys(request.headers ?? {}).some(
+    (name) => name.toLowerCase() === "authorization",
+  );
+}
+
+/**
+ * Wrap a transport so every request is authorized with the current key.
+ * When the API answers 401, the key is refreshed and the request is sent
+ * once more with the new key. Requests that set their own `Authorization`
+ * header are sent as is.
+ */
+export function withCredentials(
+  transport: Transport,
+  credentials: CredentialsCache,
+): Transport {
+  return {
+    async request<T>(request: TransportRequest) {
+      if (hasAuthorization(request)) {
+        return transport.request<T>(request);
+      }
+      const send = (apiKey: string) =>
+        transport.request<T>({
+          ...request,
+          headers: { ...request.headers, Authorization: `Bearer ${apiKey}` },
+        });
+
+      const apiKey = await credentials.get();
+      const response = await send(apiKey);
+      if (response.status !== 401) {
+        return response;
+      }
+      const refreshed = await credentials.refresh(apiKey);
+      return refreshed === apiKey ? response : send(refreshed);
+    },
+  };
+}
+
+/**
+ * Options for {@link credentialsFromFile}.
+ */
+export interface FileCredentialsOptions {
+  /**
+   * How long a key read from the file is used before the file is read
+   * again, in milliseconds. The file is also read again when the API
+   * rejects the key.
+   * @default 60000
+   */
+  maxAge?: number;
+}
+
+/**
+ * A credentials provider reading the API key from a file, such as a secret
+ * mounted by Kubernetes or written by a rotation job. Surrounding whitespace
+ * is ignored. Node.js only.
+ *
+ * @param path - Path of the file containing the key
+ * @param options - How long a key is used before the file is read again
+ * @returns The provider, for the `credentials` client option
+ *
+ * @example
+ * ```typescript
+ * const client = new Nextrows({
+ *   credentials: credentialsFromFile("/var/run/secrets/nextrows/api-key"),
+ * });
+ * ```
+ */
+export function credentialsFromFile(
+  path: string,
+  options: FileCredentialsOptions = {},
+): CredentialsProvider {
+  const { maxAge = 60000 } = options;
+  return async () => {
+    const { readFile } = await import("node:fs/promises");
+    let apiKey: string;
+    try {
+      apiKey = (await readFile(path, "utf8")).trim();
+    } catch (error) {
+      throw new ConfigurationError(
+        `Could not read the API key file ${path}: ${(error as Error).message}`,
+        path,
+        { cause: error },
+      );
+    }
+    return {
+      apiKey: validateApiKey(apiKey, `the API key file ${path}`),
+      expiresAt: Date.now() + maxAge,
+    };
+  };
+}
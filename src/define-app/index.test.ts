@@ -0,0 +1,115 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { z } from "zod/v4";
+import { AppInputError, RowValidationError } from "../client";
+import { FakeNextrowsServer } from "../testing";
+import { defineApp } from "./index";
+
+const Product = z.object({ name: z.string(), price: z.number() });
+
+const ProductsApp = defineApp({
+  appId: "abc123xyz",
+  inputs: { url: "string", maxItems: "number?", inStock: "boolean?" },
+  row: Product,
+});
+
+describe("defineApp", () => {
+  it("should convert input values to the wire format in spec order", () => {
+    expect(
+      ProductsApp.toInputs({ maxItems: 10, url: "https://example.com" }),
+    ).toEqual([
+      { key: "url", value: "https://example.com" },
+      { key: "maxItems", value: 10 },
+    ]);
+    expect(ProductsApp.toRequest({ url: "a" })).toEqual({
+      appId: "abc123xyz",
+      inputs: [{ key: "url", value: "a" }],
+    });
+  });
+
+  it("should check input values at compile time and at runtime", () => {
+    const values = { url: 1, maxitems: 10 };
+    // @ts-expect-error - wrong type and misspelled key
+    const convert = () => ProductsApp.toInputs(values);
+
+    expect(convert).toThrow(AppInputError);
+    expect(convert).toThrow(
+      "Invalid inputs for app abc123xyz: url: Expected string, received number; maxitems: Unknown input",
+    );
+    // @ts-expect-error - missing required input
+    expect(() => ProductsApp.toInputs({})).toThrow("url: Required string");
+  });
+
+  it("should reject unsupported input types", () => {
+    expect(() =>
+      // @ts-expect-error - unsupported type
+      defineApp({ appId: "abc123xyz", inputs: { when: "date" } }),
+    ).toThrow('Unsupported type "date" for input "when" of app abc123xyz');
+  });
+
+  it("should run the app with typed, validated rows", async () => {
+    const server = new FakeNextrowsServer().app("abc123xyz", ({ url }) => [
+      { name: String(url), price: 1 },
+      { name: "Broken", price: "free" },
+    ]);
+    const products = server.createClient().defineApp(ProductsApp);
+
+    const result = await products.run(
+      { url: "https://example.com", maxItems: 2 },
+      { onInvalidRow: "drop" },
+    );
+
+    expectTypeOf(result.data).toEqualTypeOf<
+      { name: string; price: number }[] | undefined
+    >();
+    expect(result.data).toEqual([{ name: "https://example.com", price: 1 }]);
+    expect(server.requests[0].body).toEqual({
+      appId: "abc123xyz",
+      inputs: [
+        { key: "url", value: "https://example.com" },
+        { key: "maxItems", value: 2 },
+      ],
+    });
+    await expect(products.run({ url: "a" })).rejects.toBeInstanceOf(
+      RowValidationError,
+    );
+  });
+
+  it("should not send requests with invalid inputs", async () => {
+    const server = new FakeNextrowsServer().app("abc123xyz", []);
+    const products = server.createClient().defineApp({
+      appId: "abc123xyz",
+      inputs: { url: "string" },
+    });
+
+    await expect(
+      // @ts-expect-error - wrong type
+      products.run({ url: null }),
+    ).rejects.toBeInstanceOf(AppInputError);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it("should run tables and batches", async () => {
+    const server = new FakeNextrowsServer().app("abc123xyz", ({ url }) => [
+      { name: String(url), price: 1 },
+    ]);
+    const products = server.createClient().defineApp(ProductsApp);
+
+    const table = await products.runTable({ url: "a" });
+    const batch = [];
+    for await (const result of products.runBatch([{ url: "b" }, { url: "c" }], {
+      concurrency: 1,
+    })) {
+      batch.push(result.success ? result.data : result.error);
+    }
+
+    expectTypeOf(table.data?.columns).toEqualTypeOf<string[] | undefined>();
+    expect(table.data).toEqual({
+      columns: ["name", "price"],
+      tableData: [["a", 1]],
+    });
+    expect(batch).toEqual([
+      [{ name: "b", price: 1 }],
+      [{ name: "c", price: 1 }],
+    ]);
+  });
+});
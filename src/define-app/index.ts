@@ -0,0 +1,262 @@
+import type {
+  AppInput,
+  AppJsonRow,
+  InvalidRowPolicy,
+  RunAppJsonResponse,
+  RunAppRequest,
+  RunAppTableResponse,
+} from "../api/apps";
+import type { AppBatchResult, RunAppBatchOptions } from "../batch";
+import type { RequestOptions } from "../client";
+import { AppInputError } from "../errors";
+import {
+  formatIssues,
+  type InferSchemaOutput,
+  type SchemaIssue,
+  type ValidationSchema,
+} from "../schema";
+
+interface AppInputTypeMap {
+  string: string;
+  number: number;
+  boolean: boolean;
+}
+
+/**
+ * Type of an app input. A trailing `?` marks the input as optional.
+ */
+export type AppInputType = keyof AppInputTypeMap | `${keyof AppInputTypeMap}?`;
+
+/**
+ * The inputs of an app, by key.
+ *
+ * @example { url: "string", maxItems: "number?" }
+ */
+export type AppInputSpec = Record<string, AppInputType>;
+
+type RequiredKeys<I extends AppInputSpec> = {
+  [K in keyof I]: I[K] extends `${string}?` ? never : K;
+}[keyof I];
+
+type InputValue<T> = T extends `${infer Name extends keyof AppInputTypeMap}?`
+  ? AppInputTypeMap[Name]
+  : AppInputTypeMap[T & keyof AppInputTypeMap];
+
+/**
+ * The input values accepted by an app with the given input spec.
+ *
+ * @example
+ * ```typescript
+ * InferAppInputs<{ url: "string"; maxItems: "number?" }>
+ * // { url: string; maxItems?: number }
+ * ```
+ */
+export type InferAppInputs<I extends AppInputSpec> = {
+  [K in RequiredKeys<I>]: InputValue<I[K]>;
+} & {
+  [K in Exclude<keyof I, RequiredKeys<I>>]?: InputValue<I[K]>;
+};
+
+/**
+ * The row type of an app: the row schema's output, or `AppJsonRow` without
+ * a row schema.
+ */
+export type InferAppRow<S> = S extends ValidationSchema
+  ? InferSchemaOutput<S>
+  : AppJsonRow;
+
+/**
+ * The contract of a published app, as passed to {@link defineApp}.
+ *
+ * @typeParam I - The input spec
+ * @typeParam S - The row schema
+ */
+export interface AppDefinitionOptions<
+  I extends AppInputSpec,
+  S extends ValidationSchema | undefined,
+> {
+  /**
+   * The ID of the app.
+   * @example "abc123xyz"
+   */
+  appId: string;
+
+  /**
+   * The type of every input the app accepts.
+   */
+  inputs: I;
+
+  /**
+   * Schema every JSON row is validated against. Accepts a Zod schema or any
+   * Standard Schema validator.
+   */
+  row?: S;
+}
+
+/**
+ * The contract of a published app returned by {@link defineApp}.
+ */
+export interface AppDefinition<
+  I extends AppInputSpec = AppInputSpec,
+  S extends ValidationSchema | undefined = ValidationSchema | undefined,
+> extends Readonly<AppDefinitionOptions<I, S>> {
+  /**
+   * Check input values against the input spec and convert them to the
+   * `AppInput[]` wire format, in the order of the spec.
+   *
+   * @throws {AppInputError} When an input is missing, unknown or of the
+   * wrong type
+   */
+  toInputs(values: InferAppInputs<I>): AppInput[];
+
+  /**
+   * Build the run request for the given input values.
+   *
+   * @throws {AppInputError} When an input is missing, unknown or of the
+   * wrong type
+   */
+  toRequest(values: InferAppInputs<I>): RunAppRequest;
+}
+
+/**
+ * Options for {@link AppRunner.run}.
+ */
+export interface AppRunOptions extends RequestOptions {
+  /**
+   * What to do with rows that do not match the row schema.
+   * @default "throw"
+   */
+  onInvalidRow?: InvalidRowPolicy;
+}
+
+/**
+ * A typed runner of a published app returned by `client.defineApp`.
+ *
+ * @typeParam I - The input spec
+ * @typeParam Row - The row type
+ */
+export interface AppRunner<
+  I extends AppInputSpec = AppInputSpec,
+  Row = AppJsonRow,
+> extends AppDefinition<I> {
+  /**
+   * Run the app and get JSON rows, validated against the row schema.
+   */
+  run(
+    values: InferAppInputs<I>,
+    options?: AppRunOptions,
+  ): Promise<RunAppJsonResponse<Row>>;
+
+  /**
+   * Run the app and get table output. The columns are not checked against
+   * the row schema.
+   */
+  runTable(
+    values: InferAppInputs<I>,
+    options?: RequestOptions,
+  ): Promise<RunAppTableResponse>;
+
+  /**
+   * Run the app once per set of input values with bounded concurrency. Rows
+   * are validated against the row schema.
+   */
+  runBatch(
+    valueSets: InferAppInputs<I>[],
+    options?: AppRunOptions & Omit<RunAppBatchOptions, "format">,
+  ): AsyncGenerator<AppBatchResult<Row[]>>;
+}
+
+/**
+ * Check input values against an input spec.
+ */
+function checkInputs(spec: AppInputSpec, values: unknown): SchemaIssue[] {
+  if (values === null || typeof values !== "object" || Array.isArray(values)) {
+    return [{ message: "Expected an object of input values", path: [] }];
+  }
+  const issues: SchemaIssue[] = [];
+  for (const [key, type] of Object.entries(spec)) {
+    const value = (values as Record<string, unknown>)[key];
+    const optional = type.endsWith("?");
+    const expected = optional ? type.slice(0, -1) : type;
+    if (value === undefined) {
+      if (!optional) {
+        issues.push({ message: `Required ${expected} input`, path: [key] });
+      }
+    } else if (
+      typeof value !== expected ||
+      (expected === "number" && !Number.isFinite(value))
+    ) {
+      issues.push({
+        message: `Expected ${expected}, received ${
+          value === null ? "null" : typeof value
+        }`,
+        path: [key],
+      });
+    }
+  }
+  for (const key of Object.keys(values)) {
+    if (!(key in spec)) {
+      issues.push({ message: "Unknown input", path: [key] });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Define the contract of a published app: its ID, the type of each input
+ * and, optionally, a row schema. Pass the definition to `client.defineApp`
+ * to get a runner; keeping definitions in their own modules lets every app
+ * have one contract shared across the codebase.
+ *
+ * @param options - The app ID, input spec and row schema
+ * @returns The app definition
+ * @throws {TypeError} When an input type is not supported
+ *
+ * @example
+ * ```typescript
+ * export const ProductsApp = defineApp({
+ *   appId: "abc123xyz",
+ *   inputs: { url: "string", maxItems: "number?" },
+ *   row: z.object({ name: z.string(), price: z.number() }),
+ * });
+ *
+ * ProductsApp.toInputs({ url: "https://example.com", maxItems: 10 });
+ * // [{ key: "url", value: "https://example.com" }, { key: "maxItems", value: 10 }]
+ * ```
+ */
+export function defineApp<
+  I extends AppInputSpec,
+  S extends ValidationSchema | undefined = undefined,
+>(options: AppDefinitionOptions<I, S>): AppDefinition<I, S> {
+  const { appId, inputs, row } = options;
+  for (const [key, type] of Object.entries(inputs)) {
+    if (!/^(string|number|boolean)\??$/.test(type)) {
+      throw new TypeError(
+        `Unsupported type "${type}" for input "${key}" of app ${appId}`,
+      );
+    }
+  }
+
+  const toInputs = (values: InferAppInputs<I>): AppInput[] => {
+    const issues = checkInputs(inputs, values);
+    if (issues.length > 0) {
+      throw new AppInputError(
+        `Invalid inputs for app ${appId}: ${formatIssues(issues)}`,
+        issues,
+      );
+    }
+    const record = values as Record<string, AppInput["value"] | undefined>;
+    return Object.keys(inputs).flatMap((key) => {
+      const value = record[key];
+      return value === undefined ? [] : [{ key, value }];
+    });
+  };
+
+  return {
+    appId,
+    inputs,
+    row,
+    toInputs,
+    toRequest: (values) => ({ appId, inputs: toInputs(values) }),
+  };
+}
@@ -0,0 +1,441 @@
+import type { SchemaIssue } from "../schema";
+
+/**
+ * Details attached to every error thrown by the Nextrows client.
+ */
+export interface NextrowsErrorOptions {
+  /**
+   * HTTP status code returned by the API, if a response was received.
+   */
+  status?: number;
+
+  /**
+   * The `error` message from the API response body, if present.
+   */
+  serverMessage?: string;
+
+  /**
+   * Unique identifier of the app run, if the API returned one.
+   */
+  runId?: string;
+
+  /**
+   * The API path of the failed request.
+   * @example "/v1/apps/run/json"
+   */
+  path?: string;
+
+  /**
+   * Delay in milliseconds requested by the API's `Retry-After` header.
+   */
+  retryAfter?: number;
+
+  /**
+   * The underlying error that caused this error.
+   */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by the Nextrows client.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.runAppJson({ appId: "abc123xyz", inputs: [] });
+ * } catch (error) {
+ *   if (error instanceof InsufficientCreditsError) {
+ *     console.log("Out of credits:", error.serverMessage);
+ *   } else if (error instanceof NextrowsError) {
+ *     console.log(error.status, error.path, error.runId);
+ *   }
+ * }
+ * ```
+ */
+export class NextrowsError extends Error {
+  readonly status?: number;
+  readonly serverMessage?: string;
+  readonly runId?: string;
+  readonly path?: string;
+  readonly retryAfter?: number;
+  readonly cause?: unknown;
+
+  /**
+   * Number of retries performed before this error was thrown.
+   */
+  retryCount = 0;
+
+  constructor(message: string, options: NextrowsErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = options.cause;
+    this.status = options.status;
+    this.serverMessage = options.serverMessage;
+    this.runId = options.runId;
+    this.path = options.path;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * The API key is missing or invalid (HTTP 401).
+ */
+export class AuthenticationError extends NextrowsError {}
+
+/**
+ * The account has run out of credits (HTTP 402).
+ */
+export class InsufficientCreditsError extends NextrowsError {}
+
+/**
+ * The requested app does not exist or is not published (HTTP 404).
+ */
+export class AppNotFoundError extends NextrowsError {}
+
+/**
+ * Too many requests were sent in a short period (HTTP 429).
+ */
+export class RateLimitError extends NextrowsError {}
+
+/**
+ * The API rejected the request body (any other HTTP 4xx).
+ */
+export class ValidationError extends NextrowsError {}
+
+/**
+ * The API failed to process the request (HTTP 5xx).
+ */
+export class ServerError extends NextrowsError {}
+
+/**
+ * The request did not complete within the configured timeout.
+ */
+export class TimeoutError extends NextrowsError {}
+
+/**
+ * The request failed before a response was received (DNS, connection reset, etc.).
+ */
+export class NetworkError extends NextrowsError {}
+
+/**
+ * The request was cancelled through its `AbortSignal`. The signal's reason
+ * is available as `cause`.
+ */
+export class AbortError extends NextrowsError {}
+
+/**
+ * A cassette in `replay` mode has no recorded response for the request.
+ */
+export class CassetteMissError extends NextrowsError {}
+
+/**
+ * The parts of an `AxiosError` used to classify it.
+ */
+interface AxiosErrorLike {
+  message: string;
+  response?: {
+    status: number;
+    data: unknown;
+    headers?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Shape of the error body returned by the Nextrows API.
+ */
+interface ErrorBody {
+  error?: unknown;
+  message?: unknown;
+  runId?: unknown;
+}
+
+function readErrorBody(body: unknown): ErrorBody {
+  return body !== null && typeof body === "object" ? (body as ErrorBody) : {};
+}
+
+/**
+ * Parse a `Retry-After` header value (delay in seconds or an HTTP date)
+ * into milliseconds.
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Create the typed error matching an HTTP error response.
+ */
+export function createHttpError(
+  status: number,
+  body: unknown,
+  path: string,
+  extra: Pick<NextrowsErrorOptions, "retryAfter" | "cause"> = {},
+): NextrowsError {
+  const { error, message, runId } = readErrorBody(body);
+  const serverMessage =
+    typeof error === "string"
+      ? error
+      : typeof message === "string"
+        ? message
+        : undefined;
+  const options: NextrowsErrorOptions = {
+    status,
+    serverMessage,
+    runId: typeof runId === "string" ? runId : undefined,
+    path,
+    ...extra,
+  };
+  const text = `Request to ${path} failed with status ${status}${
+    serverMessage ? `: ${serverMessage}` : ""
+  }`;
+
+  if (status === 401) return new AuthenticationError(text, options);
+  if (status === 402) return new InsufficientCreditsError(text, options);
+  if (status === 404) return new AppNotFoundError(text, options);
+  if (status === 429) return new RateLimitError(text, options);
+  if (status >= 500) return new ServerError(text, options);
+  return new ValidationError(text, options);
+}
+
+/**
+ * Create the {@link AbortError} for an aborted signal.
+ *
+ * @param signal - The aborted signal
+ * @param path - The API path of the cancelled request, if any
+ */
+export function createAbortError(
+  signal: AbortSignal,
+  path?: string,
+): AbortError {
+  return new AbortError(
+    path ? `Request to ${path} was aborted` : "The operation was aborted",
+    { path, cause: signal.reason },
+  );
+}
+
+/**
+ * Convert an error thrown while calling the API into a {@link NextrowsError}.
+ * Errors that are already a `NextrowsError` are returned unchanged.
+ *
+ * @param error - The error thrown by the HTTP client
+ * @param path - The API path of the request
+ */
+export function toNextrowsError(error: unknown, path: string): NextrowsError {
+  if (error instanceof NextrowsError) {
+    return error;
+  }
+
+  const { name, code } = (error ?? {}) as { name?: unknown; code?: unknown };
+  if (
+    name === "AbortError" ||
+    name === "CanceledError" ||
+    code === "ERR_CANCELED"
+  ) {
+    return new AbortError(`Request to ${path} was aborted`, {
+      path,
+      cause: error,
+    });
+  }
+
+  // Detected by shape, as importing axios here would load it for every
+  // transport
+  if ((error as { isAxiosError?: unknown } | null)?.isAxiosError === true) {
+    const { response, message } = error as AxiosErrorLike;
+    if (response) {
+      return createHttpError(response.status, response.data, path, {
+        retryAfter: parseRetryAfter(response.headers?.["retry-after"]),
+        cause: error,
+      });
+    }
+    if (code === "ECONNABORTED" || code === "ETIMEDOUT") {
+      return new TimeoutError(`Request to ${path} timed out`, {
+        path,
+        cause: error,
+      });
+    }
+    return new NetworkError(`Request to ${path} failed: ${message}`, {
+      path,
+      cause: error,
+    });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new NetworkError(`Request to ${path} failed: ${message}`, {
+    path,
+    cause: error,
+  });
+}
+
+/**
+ * Data returned by the API did not match the schema supplied with the request.
+ */
+export class SchemaValidationError extends NextrowsError {
+  /**
+   * Problems reported by the schema.
+   */
+  readonly issues: SchemaIssue[];
+
+  /**
+   * The raw payload returned by the API.
+   */
+  readonly data: unknown;
+
+  constructor(
+    message: string,
+    issues: SchemaIssue[],
+    data: unknown,
+    options: NextrowsErrorOptions = {},
+  ) {
+    super(message, options);
+    this.issues = issues;
+    this.data = data;
+  }
+}
+
+/**
+ * Input values passed to an app defined with `defineApp` do not match its
+ * input spec. Thrown before any request is sent.
+ */
+export class AppInputError extends NextrowsError {
+  /**
+   * Problems with the input values, with the input key as path.
+   */
+  readonly issues: SchemaIssue[];
+
+  constructor(
+    message: string,
+    issues: SchemaIssue[],
+    options: NextrowsErrorOptions = {},
+  ) {
+    super(message, options);
+    this.issues = issues;
+  }
+}
+
+/**
+ * The client configuration is missing or invalid, e.g. an API key without
+ * the `sk-nr-` prefix or a malformed timeout. Thrown before any request is
+ * sent.
+ */
+export class ConfigurationError extends NextrowsError {
+  /**
+   * Where the value came from, e.g. `the NEXTROWS_TIMEOUT environment
+   * variable` or `profile "staging" in ~/.config/nextrows/config.json`.
+   */
+  readonly source: string;
+
+  constructor(
+    message: string,
+    source: string,
+    options: NextrowsErrorOptions = {},
+  ) {
+    super(message, options);
+    this.source = source;
+  }
+}
+
+/**
+ * A call was refused by the client's `budget` guard. Thrown before any
+ * request is sent.
+ */
+export class BudgetExceededError extends NextrowsError {
+  /**
+   * `"floor"` when the credit balance is below the floor, `"session"` when
+   * the client has spent its session limit.
+   */
+  readonly reason: "floor" | "session";
+
+  /**
+   * The floor or session limit that was reached.
+   */
+  readonly limit: number;
+
+  /**
+   * The last known credit balance.
+   */
+  readonly balance: number;
+
+  /**
+   * Credits spent by the client so far.
+   */
+  readonly spent: number;
+
+  constructor(
+    message: string,
+    budget: Pick<BudgetExceededError, "reason" | "limit" | "balance" | "spent">,
+    options: NextrowsErrorOptions = {},
+  ) {
+    super(message, options);
+    this.reason = budget.reason;
+    this.limit = budget.limit;
+    this.balance = budget.balance;
+    this.spent = budget.spent;
+  }
+}
+
+/**
+ * A schema could not be converted to JSON Schema, because no converter is
+ * registered for its library or the converter's package is not installed.
+ */
+export class SchemaConversionError extends NextrowsError {
+  /**
+   * The Standard Schema vendor of the schema, e.g. `"valibot"`.
+   */
+  readonly vendor: string;
+
+  constructor(
+    message: string,
+    vendor: string,
+    options: NextrowsErrorOptions = {},
+  ) {
+    super(message, options);
+    this.vendor = vendor;
+  }
+}
+
+/**
+ * A row returned by `runAppJson` that did not match the row schema.
+ */
+export interface InvalidRow {
+  /**
+   * Position of the row in the response data array.
+   */
+  index: number;
+
+  /**
+   * The raw row returned by the API.
+   */
+  row: unknown;
+
+  /**
+   * Problems reported by the row schema.
+   */
+  issues: SchemaIssue[];
+}
+
+/**
+ * Rows returned by `runAppJson` did not match the row schema and the
+ * `onInvalidRow` policy is `"throw"`.
+ */
+export class RowValidationError extends NextrowsError {
+  /**
+   * The rows that failed validation.
+   */
+  readonly invalidRows: InvalidRow[];
+
+  constructor(
+    message: string,
+    invalidRows: InvalidRow[],
+    options: NextrowsErrorOptions = {},
+  ) {
+    super(message, options);
+    this.invalidRows = invalidRows;
+  }
+}
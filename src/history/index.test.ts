@@ -0,0 +1,249 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { isBuiltin } from "node:module";
+import { join } from "node:path";
+import initSqlJs from "sql.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AppNotFoundError } from "../errors";
+import { FakeNextrowsServer } from "../testing";
+import { sha256, stableStringify } from "../utils/hash";
+import {
+  historyStoreFromPath,
+  JsonlHistoryStore,
+  MemoryHistoryStore,
+  type RunRecord,
+  type SqliteDatabaseLike,
+  SqliteHistoryStore,
+} from "./index";
+
+const inputs = [{ key: "url", value: "https://example.com/private" }];
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+/**
+ * Open an in-memory sql.js database behind the `node:sqlite` interface, so
+ * that the SQLite store is tested on every Node.js version.
+ */
+async function openSqlJs(): Promise<SqliteDatabaseLike> {
+  const database = new (await initSqlJs()).Database();
+  return {
+    exec: (sql) => database.exec(sql),
+    prepare: (sql) => ({
+      run: (...parameters) => {
+        database.run(sql, parameters as initSqlJs.BindParams);
+      },
+      all: (...parameters) => {
+        const statement = database.prepare(sql);
+        statement.bind(parameters as initSqlJs.BindParams);
+        const rows = [];
+        while (statement.step()) {
+          rows.push(statement.getAsObject());
+        }
+        statement.free();
+        return rows;
+      },
+    }),
+  };
+}
+
+describe("run history", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "nextrows-history-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should record app runs and extractions to a JSONL file", async () => {
+    const path = join(directory, "logs", "history.jsonl");
+    const server = new FakeNextrowsServer()
+      .app("app-1", [{ name: "A" }, { name: "B" }])
+      .scriptExtract([{ name: "C" }]);
+    const client = server.createClient({
+      history: { store: new JsonlHistoryStore(path) },
+    });
+
+    const run = await client.runAppJson(
+      { appId: "app-1", inputs },
+      { tag: "acme" },
+    );
+    await expect(
+      client.runAppTable({ appId: "missing", inputs }),
+    ).rejects.toThrow(AppNotFoundError);
+    await client.runAppTable({ appId: "app-1", inputs });
+    await client.extract({ type: "url", data: ["https://example.com"] });
+
+    const records = await new JsonlHistoryStore(path).list({});
+    expect(records).toHaveLength(4);
+    expect(records[3]).toEqual({
+      timestamp: expect.stringMatching(/^\d{4}-\d\d-\d\dT/),
+      operation: "runAppJson",
+      endpoint: "/v1/apps/run/json",
+      appId: "app-1",
+      tag: "acme",
+      inputsHash: await sha256(stableStringify(inputs)),
+      success: true,
+      runId: run.runId,
+      rowCount: 2,
+      elapsedTime: run.elapsedTime,
+      latency: expect.any(Number),
+    });
+    expect(records[2]).toMatchObject({
+      operation: "runAppTable",
+      appId: "missing",
+      success: false,
+      error: { name: "AppNotFoundError", status: 404 },
+    });
+    expect(records[1]).toMatchObject({
+      operation: "runAppTable",
+      success: true,
+      rowCount: 2,
+    });
+    expect(records[0]).toMatchObject({
+      operation: "extract",
+      endpoint: "/v1/extract",
+      rowCount: 1,
+    });
+    expect(await readFile(path, "utf8")).not.toContain("example.com/private");
+  });
+
+  it("should filter records by app, time and outcome", async () => {
+    const store = new MemoryHistoryStore();
+    const server = new FakeNextrowsServer().app("app-1", [{ ok: true }]);
+    const client = server.createClient({
+      history: { store, includeInputs: true },
+    });
+
+    await client.runAppJson({ appId: "app-1", inputs });
+    await tick();
+    const since = new Date();
+    await tick();
+    await client.runAppJson({ appId: "app-1", inputs: [] });
+    await client.runAppJson({ appId: "app-2", inputs }).catch(() => {});
+
+    const history = client.history;
+    expect(await history?.list({ appId: "app-1" })).toHaveLength(2);
+    expect(await history?.list({ failedOnly: true })).toMatchObject([
+      { appId: "app-2", success: false },
+    ]);
+    expect(await history?.list({ since, appId: "app-1" })).toMatchObject([
+      { inputs: [] },
+    ]);
+    expect(await history?.list({ limit: 1 })).toMatchObject([
+      { appId: "app-2" },
+    ]);
+    expect((await history?.list())?.[2].inputs).toEqual(inputs);
+    await expect(history?.list({ since: "last tuesday" })).rejects.toThrow(
+      'Invalid date "last tuesday"',
+    );
+  });
+
+  it("should list records newest first by start time", async () => {
+    const record = (timestamp: string, runId: string): RunRecord => ({
+      timestamp,
+      operation: "runAppJson",
+      endpoint: "/v1/apps/run/json",
+      inputsHash: "",
+      success: true,
+      runId,
+      latency: 1,
+    });
+    const path = join(directory, "history.jsonl");
+    const stores = [
+      new MemoryHistoryStore(),
+      new JsonlHistoryStore(path),
+      new SqliteHistoryStore(await openSqlJs()),
+    ];
+
+    for (const store of stores) {
+      // A slow call finishes, and is appended, after a later one
+      await store.append(record("2026-10-13T10:00:02.000Z", "run_2"));
+      await store.append(record("2026-10-13T10:00:01.000Z", "run_1"));
+      await store.append(record("2026-10-13T10:00:02.000Z", "run_3"));
+      const runIds = (await store.list({})).map(({ runId }) => runId);
+      expect(runIds).toEqual(["run_3", "run_2", "run_1"]);
+    }
+  });
+
+  it("should not fail calls when a record cannot be stored", async () => {
+    const errors: unknown[] = [];
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const server = new FakeNextrowsServer().app("app-1", [{ ok: true }]);
+    const store = {
+      append: () => Promise.reject(new Error("disk full")),
+      list: () => [],
+    };
+    const client = server.createClient({
+      history: { store, onError: (error) => errors.push(error) },
+    });
+
+    await expect(
+      client.runAppJson({ appId: "app-1", inputs }),
+    ).resolves.toMatchObject({ success: true });
+    await server
+      .createClient({ history: { store }, logging: { logger } })
+      .runAppJson({ appId: "app-1", inputs });
+    await server
+      .createClient({ history: { store } })
+      .runAppJson({ appId: "app-1", inputs });
+
+    expect(errors).toEqual([new Error("disk full")]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      { operation: "runAppJson", error: new Error("disk full") },
+      "Could not record the runAppJson call",
+    );
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("should query records in a SQLite database", async () => {
+    const database = await openSqlJs();
+    const server = new FakeNextrowsServer().app("app-1", [{ ok: true }]);
+    const client = server.createClient({
+      history: { store: new SqliteHistoryStore(database), includeInputs: true },
+    });
+
+    await client.runAppJson({ appId: "app-1", inputs }, { tag: "acme" });
+    await client.runAppTable({ appId: "app-1", inputs: [] });
+    await client.runAppJson({ appId: "app-2", inputs }).catch(() => {});
+
+    const store = new SqliteHistoryStore(database);
+    expect(await store.list({ failedOnly: true })).toMatchObject([
+      { appId: "app-2", error: { name: "AppNotFoundError", status: 404 } },
+    ]);
+    expect(await store.list({ appId: "app-1" })).toEqual([
+      expect.objectContaining({ operation: "runAppTable", inputs: [] }),
+      expect.objectContaining({ tag: "acme", inputs, rowCount: 1 }),
+    ]);
+    expect(await store.list({ tag: "acme", limit: 1 })).toHaveLength(1);
+    expect(await store.list({ until: new Date(Date.now() - 60000) })).toEqual(
+      [],
+    );
+  });
+
+  it.skipIf(!isBuiltin("node:sqlite"))(
+    "should query records in a SQLite file",
+    async () => {
+      const path = join(directory, "history.db");
+      const server = new FakeNextrowsServer().app("app-1", [{ ok: true }]);
+      const client = server.createClient({
+        history: { store: historyStoreFromPath(path) },
+      });
+
+      await client.runAppJson({ appId: "app-1", inputs });
+      await client.runAppJson({ appId: "app-2", inputs }).catch(() => {});
+
+      const store = new SqliteHistoryStore(path);
+      expect(await store.list({ failedOnly: true })).toMatchObject([
+        { appId: "app-2", error: { name: "AppNotFoundError" } },
+      ]);
+      expect(await store.list({ appId: "app-1" })).toEqual([
+        expect.objectContaining({ success: true, rowCount: 1 }),
+      ]);
+    },
+  );
+});
@@ -0,0 +1,170 @@
+import { NextrowsError } from "../errors";
+import { sha256, stableStringify } from "../utils/hash";
+import {
+  type HistoryQuery,
+  type HistoryStore,
+  JsonlHistoryStore,
+  type RunRecord,
+  SqliteHistoryStore,
+} from "./stores";
+
+export {
+  type HistoryQuery,
+  type HistoryStore,
+  JsonlHistoryStore,
+  MemoryHistoryStore,
+  type RunRecord,
+  type SqliteDatabaseLike,
+  SqliteHistoryStore,
+} from "./stores";
+
+/**
+ * Options for the `history` client option.
+ */
+export interface HistoryOptions {
+  /**
+   * Where records are kept.
+   */
+  store: HistoryStore;
+
+  /**
+   * Store the inputs of every call in full. By default only their hash is
+   * stored, so that URLs, text and input values do not end up in the log.
+   * @default false
+   */
+  includeInputs?: boolean;
+
+  /**
+   * Called when a record could not be stored. The call itself still
+   * succeeds or fails as it would without history. By default the client
+   * logs the error with the `logging` option's logger, if there is one.
+   */
+  onError?: (error: unknown, record: RunRecord) => void;
+}
+
+/**
+ * A call to record.
+ */
+export interface HistoryCall {
+  operation: string;
+  endpoint: string;
+  appId?: string;
+  tag?: string;
+
+  /**
+   * The inputs sent: the app inputs, or the type, sources and prompt of an
+   * extraction.
+   */
+  inputs?: unknown;
+}
+
+function countRows(data: unknown): number | undefined {
+  if (Array.isArray(data)) {
+    return data.length;
+  }
+  const rows = (data as { tableData?: unknown } | undefined)?.tableData;
+  return Array.isArray(rows) ? rows.length : undefined;
+}
+
+/**
+ * Records every `extract`, `runAppJson` and `runAppTable` call, with its
+ * inputs hash, outcome, run ID, row count and latency, and queries the
+ * records.
+ *
+ * @example
+ * ```typescript
+ * const client = new Nextrows({
+ *   apiKey: "sk-nr-your-api-key",
+ *   history: { store: new JsonlHistoryStore("./nextrows-history.jsonl") },
+ * });
+ *
+ * const failed = await client.history.list({
+ *   appId: "abc123xyz",
+ *   since: "2026-10-13",
+ *   failedOnly: true,
+ * });
+ * ```
+ */
+export class RunHistory {
+  constructor(private readonly options: HistoryOptions) {}
+
+  /**
+   * Records matching the query, newest first.
+   */
+  async list(query: HistoryQuery = {}): Promise<RunRecord[]> {
+    return this.options.store.list(query);
+  }
+
+  /**
+   * Record a finished call. Errors of the store are reported to `onError`
+   * rather than thrown.
+   *
+   * @param call - The call and its inputs
+   * @param started - When the call started, in milliseconds since the epoch
+   * @param outcome - The result of the call, or the error it threw
+   */
+  async record(
+    call: HistoryCall,
+    started: number,
+    outcome: { result: unknown } | { error: unknown },
+  ): Promise<void> {
+    const { store, includeInputs = false, onError } = this.options;
+    const serialized = stableStringify(call.inputs ?? null);
+    const record: RunRecord = {
+      timestamp: new Date(started).toISOString(),
+      operation: call.operation,
+      endpoint: call.endpoint,
+      ...(call.appId !== undefined ? { appId: call.appId } : {}),
+      ...(call.tag !== undefined ? { tag: call.tag } : {}),
+      inputsHash: await sha256(serialized),
+      ...(includeInputs ? { inputs: JSON.parse(serialized) } : {}),
+      success: "result" in outcome,
+      latency: Date.now() - started,
+    };
+    if ("result" in outcome) {
+      const { data, runId, elapsedTime } = (outcome.result ?? {}) as {
+        data?: unknown;
+        runId?: unknown;
+        elapsedTime?: unknown;
+      };
+      const rowCount = countRows(data);
+      Object.assign(record, {
+        ...(typeof runId === "string" ? { runId } : {}),
+        ...(rowCount !== undefined ? { rowCount } : {}),
+        ...(typeof elapsedTime === "number" ? { elapsedTime } : {}),
+      });
+    } else {
+      const { error } = outcome;
+      const nextrowsError = error instanceof NextrowsError ? error : undefined;
+      record.error = {
+        name: error instanceof Error ? error.name : "Error",
+        message: error instanceof Error ? error.message : String(error),
+        ...(nextrowsError?.status !== undefined
+          ? { status: nextrowsError.status }
+          : {}),
+      };
+      if (nextrowsError?.runId !== undefined) {
+        record.runId = nextrowsError.runId;
+      }
+    }
+
+    try {
+      await store.append(record);
+    } catch (error) {
+      onError?.(error, record);
+    }
+  }
+}
+
+/**
+ * Open the history store for a file: SQLite for `.db`, `.sqlite` and
+ * `.sqlite3` files, JSONL otherwise.
+ *
+ * @param path - Path of the history file
+ * @returns The store
+ */
+export function historyStoreFromPath(path: string): HistoryStore {
+  return /\.(db|sqlite3?)$/i.test(path)
+    ? new SqliteHistoryStore(path)
+    : new JsonlHistoryStore(path);
+}
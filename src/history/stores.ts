@@ -0,0 +1,392 @@
+import { ConfigurationError } from "../errors";
+
+/**
+ * A call recorded by the run history.
+ */
+export interface RunRecord {
+  /**
+   * When the call started, as an ISO 8601 string.
+   */
+  timestamp: string;
+
+  /**
+   * The client method, e.g. `"runAppJson"`.
+   */
+  operation: string;
+
+  /**
+   * The API endpoint, e.g. `"/v1/apps/run/json"`.
+   */
+  endpoint: string;
+
+  /**
+   * The app run, for app calls.
+   */
+  appId?: string;
+
+  /**
+   * The `tag` passed to the call.
+   */
+  tag?: string;
+
+  /**
+   * Hex-encoded SHA-256 hash of the inputs serialized as JSON with sorted
+   * keys: the app inputs, or the type, sources and prompt of an extraction.
+   */
+  inputsHash: string;
+
+  /**
+   * The inputs themselves, when `includeInputs` is set.
+   */
+  inputs?: unknown;
+
+  success: boolean;
+
+  /**
+   * Why the call failed.
+   */
+  error?: { name: string; message: string; status?: number };
+
+  /**
+   * Unique identifier of the app run, if the API returned one.
+   */
+  runId?: string;
+
+  /**
+   * Number of rows or records returned.
+   */
+  rowCount?: number;
+
+  /**
+   * Server-reported processing time of app runs, in milliseconds.
+   */
+  elapsedTime?: number;
+
+  /**
+   * Time the call took on the client, retries included, in milliseconds.
+   */
+  latency: number;
+}
+
+/**
+ * Filters of {@link HistoryStore.list}. Records are returned newest first.
+ */
+export interface HistoryQuery {
+  appId?: string;
+  tag?: string;
+
+  /**
+   * Only calls started at or after this time.
+   */
+  since?: Date | number | string;
+
+  /**
+   * Only calls started before this time.
+   */
+  until?: Date | number | string;
+
+  /**
+   * Only failed calls.
+   */
+  failedOnly?: boolean;
+
+  /**
+   * Maximum number of records returned, the most recent ones.
+   */
+  limit?: number;
+}
+
+/**
+ * Storage backend of the run history.
+ */
+export interface HistoryStore {
+  append(record: RunRecord): Promise<void> | void;
+  list(query: HistoryQuery): Promise<RunRecord[]> | RunRecord[];
+}
+
+function toTimestamp(value: Date | number | string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new RangeError(`Invalid date ${JSON.stringify(value)}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Filter, sort and limit records in memory. Records are appended when calls
+ * finish, so they are sorted by start time like in SQLite, the last
+ * appended first among equal timestamps.
+ */
+function applyQuery(records: RunRecord[], query: HistoryQuery): RunRecord[] {
+  const since =
+    query.since === undefined ? undefined : toTimestamp(query.since);
+  const until =
+    query.until === undefined ? undefined : toTimestamp(query.until);
+  const matching = records
+    .filter(
+      (record) =>
+        (query.appId === undefined || record.appId === query.appId) &&
+        (query.tag === undefined || record.tag === query.tag) &&
+        (since === undefined || record.timestamp >= since) &&
+        (until === undefined || record.timestamp < until) &&
+        (!query.failedOnly || !record.success),
+    )
+    .reverse()
+    .sort((a, b) =>
+      a.timestamp < b.timestamp ? 1 : a.timestamp > b.timestamp ? -1 : 0,
+    );
+  return query.limit === undefined ? matching : matching.slice(0, query.limit);
+}
+
+/**
+ * History store keeping records in memory, for tests and short-lived
+ * processes.
+ */
+export class MemoryHistoryStore implements HistoryStore {
+  private readonly records: RunRecord[] = [];
+
+  append(record: RunRecord): void {
+    this.records.push(record);
+  }
+
+  list(query: HistoryQuery): RunRecord[] {
+    return applyQuery(this.records, query);
+  }
+}
+
+/**
+ * History store appending one JSON record per line to a file. Lines that
+ * cannot be parsed, such as a line cut short by a crash, are skipped.
+ * Node.js only.
+ */
+export class JsonlHistoryStore implements HistoryStore {
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - The JSONL file, created with its directory if needed
+   */
+  constructor(private readonly path: string) {}
+
+  append(record: RunRecord): Promise<void> {
+    // Chain writes so that records are appended in call order
+    const write = this.writing.then(async () => {
+      const { appendFile, mkdir } = await import("node:fs/promises");
+      const { dirname } = await import("node:path");
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, `${JSON.stringify(record)}\n`, "utf8");
+    });
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  async list(query: HistoryQuery): Promise<RunRecord[]> {
+    const { readFile } = await import("node:fs/promises");
+    let content: string;
+    try {
+      content = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    const records: RunRecord[] = [];
+    for (const line of content.split("\n")) {
+      try {
+        if (line.trim()) {
+          records.push(JSON.parse(line));
+        }
+      } catch {
+        // Skip partially written lines
+      }
+    }
+    return applyQuery(records, query);
+  }
+}
+
+/**
+ * The subset of a `node:sqlite` `DatabaseSync` or `better-sqlite3`
+ * database used by {@link SqliteHistoryStore}.
+ */
+export interface SqliteDatabaseLike {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...parameters: unknown[]): unknown;
+    all(...parameters: unknown[]): unknown[];
+  };
+}
+
+interface RunRow {
+  timestamp: string;
+  operation: string;
+  endpoint: string;
+  app_id: string | null;
+  tag: string | null;
+  inputs_hash: string;
+  inputs: string | null;
+  success: number;
+  error: string | null;
+  run_id: string | null;
+  row_count: number | null;
+  elapsed_time: number | null;
+  latency: number;
+}
+
+const COLUMNS = [
+  "timestamp",
+  "operation",
+  "endpoint",
+  "app_id",
+  "tag",
+  "inputs_hash",
+  "inputs",
+  "success",
+  "error",
+  "run_id",
+  "row_count",
+  "elapsed_time",
+  "latency",
+] as const;
+
+/**
+ * History store keeping records in a SQLite table, for querying large
+ * histories. Pass a file path to open it with `node:sqlite` (Node.js 22.5
+ * or later), or an open `node:sqlite` or `better-sqlite3` database.
+ *
+ * @example
+ * ```typescript
+ * const store = new SqliteHistoryStore("./nextrows-history.db");
+ *
+ * // With better-sqlite3
+ * const store = new SqliteHistoryStore(new Database("./nextrows-history.db"));
+ * ```
+ */
+export class SqliteHistoryStore implements HistoryStore {
+  private database: Promise<SqliteDatabaseLike> | undefined;
+
+  /**
+   * @param source - Path of the database file, or an open database
+   * @param table - Name of the table holding the records
+   */
+  constructor(
+    private readonly source: string | SqliteDatabaseLike,
+    private readonly table = "nextrows_runs",
+  ) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new RangeError(`Invalid table name "${table}"`);
+    }
+  }
+
+  async append(record: RunRecord): Promise<void> {
+    const database = await this.open();
+    const row: RunRow = {
+      timestamp: record.timestamp,
+      operation: record.operation,
+      endpoint: record.endpoint,
+      app_id: record.appId ?? null,
+      tag: record.tag ?? null,
+      inputs_hash: record.inputsHash,
+      inputs:
+        record.inputs === undefined ? null : JSON.stringify(record.inputs),
+      success: record.success ? 1 : 0,
+      error: record.error ? JSON.stringify(record.error) : null,
+      run_id: record.runId ?? null,
+      row_count: record.rowCount ?? null,
+      elapsed_time: record.elapsedTime ?? null,
+      latency: record.latency,
+    };
+    database
+      .prepare(
+        `INSERT INTO ${this.table} (${COLUMNS.join(", ")}) VALUES (${COLUMNS.map(() => "?").join(", ")})`,
+      )
+      .run(...COLUMNS.map((column) => row[column]));
+  }
+
+  async list(query: HistoryQuery): Promise<RunRecord[]> {
+    const database = await this.open();
+    const conditions: string[] = [];
+    const parameters: unknown[] = [];
+    const where = (condition: string, value: unknown) => {
+      conditions.push(condition);
+      parameters.push(value);
+    };
+    if (query.appId !== undefined) where("app_id = ?", query.appId);
+    if (query.tag !== undefined) where("tag = ?", query.tag);
+    if (query.since !== undefined) {
+      where("timestamp >= ?", toTimestamp(query.since));
+    }
+    if (query.until !== undefined) {
+      where("timestamp < ?", toTimestamp(query.until));
+    }
+    if (query.failedOnly) where("success = ?", 0);
+    if (query.limit !== undefined) parameters.push(query.limit);
+
+    const rows = database
+      .prepare(
+        `SELECT ${COLUMNS.join(", ")} FROM ${this.table}${
+          conditions.length ? ` WHERE ${conditions.join(" AND ")}` : ""
+        } ORDER BY timestamp DESC, id DESC${query.limit !== undefined ? " LIMIT ?" : ""}`,
+      )
+      .all(...parameters) as RunRow[];
+    return rows.map((row) => ({
+      timestamp: row.timestamp,
+      operation: row.operation,
+      endpoint: row.endpoint,
+      ...(row.app_id !== null ? { appId: row.app_id } : {}),
+      ...(row.tag !== null ? { tag: row.tag } : {}),
+      inputsHash: row.inputs_hash,
+      ...(row.inputs !== null ? { inputs: JSON.parse(row.inputs) } : {}),
+      success: row.success === 1,
+      ...(row.error !== null ? { error: JSON.parse(row.error) } : {}),
+      ...(row.run_id !== null ? { runId: row.run_id } : {}),
+      ...(row.row_count !== null ? { rowCount: row.row_count } : {}),
+      ...(row.elapsed_time !== null ? { elapsedTime: row.elapsed_time } : {}),
+      latency: row.latency,
+    }));
+  }
+
+  private open(): Promise<SqliteDatabaseLike> {
+    this.database ??= (async () => {
+      let database: SqliteDatabaseLike;
+      if (typeof this.source === "string") {
+        let sqlite: typeof import("node:sqlite");
+        try {
+          sqlite = await import("node:sqlite");
+        } catch (error) {
+          throw new ConfigurationError(
+            "SqliteHistoryStore needs node:sqlite (Node.js 22.5 or later) to open a file. Pass an open better-sqlite3 database instead",
+            "the history store",
+            { cause: error },
+          );
+        }
+        database = new sqlite.DatabaseSync(this.source);
+      } else {
+        database = this.source;
+      }
+      database.exec(
+        `CREATE TABLE IF NOT EXISTS ${this.table} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp TEXT NOT NULL,
+          operation TEXT NOT NULL,
+          endpoint TEXT NOT NULL,
+          app_id TEXT,
+          tag TEXT,
+          inputs_hash TEXT NOT NULL,
+          inputs TEXT,
+          success INTEGER NOT NULL,
+          error TEXT,
+          run_id TEXT,
+          row_count INTEGER,
+          elapsed_time REAL,
+          latency REAL NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS ${this.table}_timestamp
+          ON ${this.table} (timestamp);
+        CREATE INDEX IF NOT EXISTS ${this.table}_app_id
+          ON ${this.table} (app_id, timestamp);`,
+      );
+      return database;
+    })();
+    return this.database;
+  }
+}
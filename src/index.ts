@@ -1 +1,4 @@
 export * from "./client";
+export * from "./codegen";
+export * from "./loaders";
+export * from "./table";
@@ -0,0 +1,208 @@
+/**
+ * Format of a local document.
+ * - `"text"` - Plain text (`.txt`, `.text`, `.log` and unknown extensions)
+ * - `"markdown"` - Markdown (`.md`, `.markdown`, `.mdx`)
+ * - `"html"` - HTML (`.html`, `.htm`, `.xhtml`); tags are stripped and the
+ *   main content kept
+ * - `"csv"` - Comma-separated values with a header row (`.csv`)
+ * - `"json"` - JSON (`.json`); top-level arrays are loaded one item per line
+ */
+export type DocumentFormat = "text" | "markdown" | "html" | "csv" | "json";
+
+/**
+ * Text of a document after conversion, with the positions chunks may start
+ * at.
+ */
+export interface ConvertedDocument {
+  /**
+   * The cleaned text. Chunk offsets point into this text.
+   */
+  text: string;
+
+  /**
+   * Line repeated at the top of every chunk, e.g. the CSV header row.
+   */
+  header?: string;
+
+  /**
+   * Offsets of records (CSV rows, JSON array items) that chunks should not
+   * split. Unset for free text.
+   */
+  records?: number[];
+}
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  md: "markdown",
+  markdown: "markdown",
+  mdx: "markdown",
+  html: "html",
+  htm: "html",
+  xhtml: "html",
+  csv: "csv",
+  json: "json",
+};
+
+/**
+ * Detect the format of a document from its file name. Unknown extensions are
+ * read as plain text.
+ */
+export function detectDocumentFormat(name: string): DocumentFormat {
+  const extension = /\.(\w+)$/.exec(name)?.[1].toLowerCase();
+  return (extension && EXTENSIONS[extension]) || "text";
+}
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[\da-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name[0] !== "#") {
+        return ENTITIES[name.toLowerCase()] ?? entity;
+      }
+      const code =
+        name[1] === "x" || name[1] === "X"
+          ? Number.parseInt(name.slice(2), 16)
+          : Number.parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    },
+  );
+}
+
+function removeElements(html: string, tags: string[]): string {
+  const pattern = new RegExp(
+    `<(${tags.join("|")})\\b[^>]*>[\\s\\S]*?</\\1\\s*>`,
+    "gi",
+  );
+  return html.replace(pattern, " ");
+}
+
+function innerContents(html: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}\\s*>`, "gi");
+  return Array.from(html.matchAll(pattern), (match) => match[1]);
+}
+
+const BLOCK_TAGS =
+  "address|article|aside|blockquote|dd|div|dl|dt|figcaption|figure|h[1-6]|hr|li|main|ol|p|pre|section|table|tbody|thead|tfoot|tr|ul";
+
+/**
+ * Convert HTML to plain text. Scripts, styles and page chrome (navigation,
+ * headers, footers, sidebars, forms) are removed; when the page has a
+ * `<main>` element or `<article>` elements, only their content is kept.
+ * Block elements become line breaks and entities are decoded.
+ */
+export function htmlToText(html: string): string {
+  let content = removeElements(html.replace(/<!--[\s\S]*?-->/g, " "), [
+    "head",
+    "script",
+    "style",
+    "noscript",
+    "template",
+    "svg",
+    "iframe",
+  ]);
+  const main = innerContents(content, "main");
+  const articles = main.length > 0 ? main : innerContents(content, "article");
+  if (articles.length > 0) {
+    content = articles.join("\n\n");
+  }
+  content = removeElements(content, [
+    "nav",
+    "header",
+    "footer",
+    "aside",
+    "form",
+  ])
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/(td|th)\s*>/gi, "\t")
+    .replace(new RegExp(`</?(${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n\n")
+    .replace(/<[^>]*>/g, "");
+
+  return decodeEntities(content)
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Offsets of the records of CSV text, skipping newlines inside quoted
+ * fields. The first record is the header.
+ */
+function csvRecordOffsets(text: string): number[] {
+  const offsets = [0];
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === "\n" && !quoted && i + 1 < text.length) {
+      offsets.push(i + 1);
+    }
+  }
+  return offsets;
+}
+
+/**
+ * Convert the content of a document to text for extraction.
+ *
+ * @throws {SyntaxError} When a JSON document cannot be parsed
+ */
+export function convertDocument(
+  content: string,
+  format: DocumentFormat,
+): ConvertedDocument {
+  const text = normalizeNewlines(content);
+  switch (format) {
+    case "html":
+      return { text: htmlToText(text) };
+    case "csv": {
+      const [, ...records] = csvRecordOffsets(text);
+      const header = text.slice(0, records[0] ?? text.length).trimEnd();
+      return { text, header, records };
+    }
+    case "json": {
+      const value: unknown = JSON.parse(text);
+      if (!Array.isArray(value)) {
+        return { text: JSON.stringify(value, null, 2) };
+      }
+      const records: number[] = [];
+      let offset = 0;
+      const lines = value.map((item) => {
+        const line = JSON.stringify(item) ?? "null";
+        records.push(offset);
+        offset += line.length + 1;
+        return line;
+      });
+      return { text: lines.join("\n"), records };
+    }
+    default:
+      return { text };
+  }
+}
@@ -0,0 +1,158 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { chunkDocument, htmlToText, loadDocuments } from "./index";
+
+describe("document loaders", () => {
+  it("should keep the main content of HTML pages", () => {
+    const html = `<!doctype html>
+<html>
+  <head><title>Ignored</title><style>p { color: red; }</style></head>
+  <body>
+    <nav><a href="/">Home</a></nav>
+    <main>
+      <h1>Pricing &amp; Plans</h1>
+      <p>Starter costs&nbsp;<b>$10</b>/month.<br>Pro costs $30.</p>
+      <script>track();</script>
+      <ul><li>Email support</li><li>API &#8212; 1,000 calls</li></ul>
+    </main>
+    <footer>Copyright</footer>
+  </body>
+</html>`;
+
+    expect(htmlToText(html)).toBe(
+      "Pricing & Plans\n\nStarter costs $10/month.\nPro costs $30.\n\n- Email support\n\n- API — 1,000 calls",
+    );
+  });
+
+  it("should split text at paragraph boundaries with offsets", () => {
+    const paragraphs = ["First paragraph.", "Second one here.", "Third."];
+    const content = paragraphs.join("\r\n\r\n");
+
+    const chunks = chunkDocument(
+      { name: "notes.txt", content },
+      { chunkSize: 36 },
+    );
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      "First paragraph.\n\nSecond one here.",
+      "Third.",
+    ]);
+    expect(chunks[1]).toMatchObject({
+      source: "notes.txt",
+      format: "text",
+      index: 1,
+      count: 2,
+      offset: 36,
+      length: 6,
+    });
+    const text = content.replace(/\r\n/g, "\n");
+    for (const chunk of chunks) {
+      expect(text.slice(chunk.offset, chunk.offset + chunk.length)).toBe(
+        chunk.text,
+      );
+    }
+  });
+
+  it("should never exceed the chunk size and overlap at word boundaries", () => {
+    const content = "Lorem ipsum dolor sit amet consectetur adipiscing elit";
+
+    const chunks = chunkDocument(
+      { name: "lorem", content: new TextEncoder().encode(content) },
+      { chunkSize: 20, overlap: 8 },
+    );
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      "Lorem ipsum dolor",
+      "dolor sit amet",
+      "amet consectetur",
+      "adipiscing elit",
+    ]);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(20);
+    }
+    expect(() =>
+      chunkDocument({ name: "a.txt", content }, { chunkSize: 10, overlap: 10 }),
+    ).toThrow(RangeError);
+  });
+
+  it("should split Markdown before headings", () => {
+    const content = "# Intro\nHello there.\n# Details\nMore text here.";
+
+    const chunks = chunkDocument(
+      { name: "README.md", content },
+      { chunkSize: 40 },
+    );
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      "# Intro\nHello there.",
+      "# Details\nMore text here.",
+    ]);
+    expect(chunks[0].format).toBe("markdown");
+  });
+
+  it("should repeat the CSV header and keep quoted rows together", () => {
+    const content = 'name,notes\nA,"line one\nline two"\nB,short\nC,last\n';
+
+    const chunks = chunkDocument(
+      { name: "items.csv", content },
+      { chunkSize: 41 },
+    );
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      'name,notes\nA,"line one\nline two"\nB,short',
+      "name,notes\nC,last",
+    ]);
+    expect(chunks[1]).toMatchObject({ offset: 41, length: 6 });
+  });
+
+  it("should load files and JSON arrays one item per line", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "nextrows-loaders-"));
+    try {
+      const jsonFile = join(directory, "products.json");
+      const textFile = join(directory, "notes.log");
+      await writeFile(
+        jsonFile,
+        JSON.stringify([{ name: "A" }, { name: "B" }, { name: "C" }]),
+      );
+      await writeFile(textFile, "\uFEFFplain notes\n");
+
+      const chunks = await loadDocuments([jsonFile, textFile], {
+        chunkSize: 30,
+      });
+
+      expect(chunks).toEqual([
+        {
+          text: '{"name":"A"}\n{"name":"B"}',
+          source: jsonFile,
+          format: "json",
+          index: 0,
+          count: 2,
+          offset: 0,
+          length: 25,
+        },
+        {
+          text: '{"name":"C"}',
+          source: jsonFile,
+          format: "json",
+          index: 1,
+          count: 2,
+          offset: 26,
+          length: 12,
+        },
+        {
+          text: "plain notes",
+          source: textFile,
+          format: "text",
+          index: 0,
+          count: 1,
+          offset: 0,
+          length: 11,
+        },
+      ]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
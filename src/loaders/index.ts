@@ -0,0 +1,230 @@
+import {
+  convertDocument,
+  type DocumentFormat,
+  detectDocumentFormat,
+} from "./formats";
+import { MARKDOWN_SEPARATORS, splitDocument, TEXT_SEPARATORS } from "./split";
+
+export {
+  type DocumentFormat,
+  detectDocumentFormat,
+  htmlToText,
+} from "./formats";
+
+/**
+ * Default maximum number of characters in a chunk.
+ */
+export const DEFAULT_CHUNK_SIZE = 10000;
+
+/**
+ * A document given by content instead of a file path.
+ */
+export interface DocumentSource {
+  /**
+   * Name identifying the document in chunk metadata, usually its file name.
+   * Also used to detect the format when `format` is not set.
+   */
+  name: string;
+
+  /**
+   * The document content. Bytes are decoded as UTF-8.
+   */
+  content: string | Uint8Array;
+
+  /**
+   * Format of the document.
+   * @default Detected from the extension of `name`
+   */
+  format?: DocumentFormat;
+}
+
+/**
+ * A document to load: a file path (Node.js only) or a {@link DocumentSource}.
+ */
+export type DocumentInput = string | DocumentSource;
+
+/**
+ * Options for {@link loadDocuments} and {@link chunkDocument}.
+ */
+export interface LoadDocumentsOptions {
+  /**
+   * Maximum number of characters in a chunk, including the CSV header row
+   * repeated at the top of each CSV chunk.
+   * @default 10000
+   */
+  chunkSize?: number;
+
+  /**
+   * Number of characters from the end of a chunk repeated at the start of
+   * the next, so that facts spanning a split are not lost. Overlaps start at
+   * a word boundary, or a record boundary for CSV and JSON arrays.
+   * @default 0
+   */
+  overlap?: number;
+
+  /**
+   * Format of every document, overriding detection from the file extension.
+   */
+  format?: DocumentFormat;
+}
+
+/**
+ * A piece of a document, sized to be one entry of `ExtractRequest.data`.
+ */
+export interface DocumentChunk {
+  /**
+   * Text to extract from. CSV chunks start with the header row.
+   */
+  text: string;
+
+  /**
+   * The file path or {@link DocumentSource} name of the document.
+   */
+  source: string;
+
+  /**
+   * Format the document was read as.
+   */
+  format: DocumentFormat;
+
+  /**
+   * Position of the chunk in the document, from 0.
+   */
+  index: number;
+
+  /**
+   * Number of chunks the document was split into.
+   */
+  count: number;
+
+  /**
+   * Offset of the chunk's first character in the document text: the file
+   * content with `\r\n` line endings normalized, the text of an HTML page, or
+   * the one-item-per-line text of a JSON array. Excludes the repeated CSV
+   * header.
+   */
+  offset: number;
+
+  /**
+   * Number of characters of the document text in the chunk.
+   */
+  length: number;
+}
+
+function resolveOptions(options: LoadDocumentsOptions): {
+  chunkSize: number;
+  overlap: number;
+} {
+  const { chunkSize = DEFAULT_CHUNK_SIZE, overlap = 0 } = options;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new RangeError("chunkSize must be a positive integer");
+  }
+  if (!Number.isInteger(overlap) || overlap < 0 || overlap >= chunkSize) {
+    throw new RangeError(
+      "overlap must be an integer between 0 and chunkSize - 1",
+    );
+  }
+  return { chunkSize, overlap };
+}
+
+/**
+ * Convert a document to text and split it into chunks. Works in any
+ * runtime; use {@link loadDocuments} to read files.
+ *
+ * @param document - The document name and content
+ * @param options - Chunk size, overlap and format
+ * @returns The chunks, in document order
+ * @throws {RangeError} When `chunkSize` or `overlap` is invalid, or the CSV
+ * header does not fit in a chunk
+ * @throws {SyntaxError} When a JSON document cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const chunks = chunkDocument({ name: "faq.html", content: html });
+ * const result = await client.extract({
+ *   type: "text",
+ *   data: chunks.map((chunk) => chunk.text),
+ * });
+ * ```
+ */
+export function chunkDocument(
+  document: DocumentSource,
+  options: LoadDocumentsOptions = {},
+): DocumentChunk[] {
+  const { chunkSize, overlap } = resolveOptions(options);
+  const format =
+    options.format ?? document.format ?? detectDocumentFormat(document.name);
+  const content =
+    typeof document.content === "string"
+      ? document.content
+      : new TextDecoder().decode(document.content);
+  const converted = convertDocument(content, format);
+
+  const { header } = converted;
+  const bodySize =
+    header === undefined ? chunkSize : chunkSize - header.length - 1;
+  if (bodySize < 1) {
+    throw new RangeError(
+      `The CSV header of ${document.name} is longer than chunkSize (${chunkSize})`,
+    );
+  }
+  const spans = splitDocument(
+    converted,
+    bodySize,
+    Math.min(overlap, bodySize - 1),
+    format === "markdown" ? MARKDOWN_SEPARATORS : TEXT_SEPARATORS,
+  );
+  return spans.map((span, index) => ({
+    text: header === undefined ? span.text : `${header}\n${span.text}`,
+    source: document.name,
+    format,
+    index,
+    count: spans.length,
+    offset: span.offset,
+    length: span.length,
+  }));
+}
+
+/**
+ * Load local documents as text chunks for `type: "text"` extraction.
+ *
+ * Plain text, Markdown, HTML (tags stripped, main content kept), CSV and
+ * JSON are supported; the format is detected from the file extension. Large
+ * documents are split into chunks of at most `chunkSize` characters at
+ * paragraph, line, sentence or record boundaries, and each chunk keeps its
+ * source and offset so results can be traced back. File paths are read with
+ * Node.js; pass {@link DocumentSource} objects in other runtimes.
+ *
+ * @param inputs - File paths or documents given by content
+ * @param options - Chunk size, overlap and format
+ * @returns The chunks of every document, in input order
+ * @throws {RangeError} When `chunkSize` or `overlap` is invalid
+ * @throws {SyntaxError} When a JSON document cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const chunks = await loadDocuments(["docs/pricing.md", "exports/items.csv"]);
+ * const result = await client.extractMany(
+ *   { type: "text", data: chunks.map((chunk) => chunk.text), schema },
+ *   { batchSize: 1 },
+ * );
+ * ```
+ */
+export async function loadDocuments(
+  inputs: DocumentInput[],
+  options: LoadDocumentsOptions = {},
+): Promise<DocumentChunk[]> {
+  resolveOptions(options);
+  const chunks: DocumentChunk[] = [];
+  for (const input of inputs) {
+    let document: DocumentSource;
+    if (typeof input === "string") {
+      const { readFile } = await import("node:fs/promises");
+      document = { name: input, content: await readFile(input) };
+    } else {
+      document = input;
+    }
+    chunks.push(...chunkDocument(document, options));
+  }
+  return chunks;
+}
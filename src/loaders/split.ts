@@ -0,0 +1,158 @@
+import type { ConvertedDocument } from "./formats";
+
+/**
+ * A piece of a document's text.
+ */
+export interface TextSpan {
+  /**
+   * Offset of the first character in the document's text.
+   */
+  offset: number;
+
+  /**
+   * Number of characters.
+   */
+  length: number;
+
+  /**
+   * The text, trimmed.
+   */
+  text: string;
+}
+
+/**
+ * Where free text may be split, best first. Chunks end after the first
+ * character of the separator, so headings and paragraphs start a new chunk.
+ */
+export const TEXT_SEPARATORS = ["\n\n", "\n", ". ", " "];
+
+/**
+ * Separators for Markdown, preferring to split before headings.
+ */
+export const MARKDOWN_SEPARATORS = ["\n#", ...TEXT_SEPARATORS];
+
+/**
+ * Index of the first record offset greater than or equal to `offset`.
+ */
+function firstRecordFrom(records: number[], offset: number): number {
+  let low = 0;
+  let high = records.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (records[middle] < offset) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+function isHighSurrogate(text: string, index: number): boolean {
+  const code = text.charCodeAt(index);
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+/**
+ * End of a chunk starting at `start` and at most `limit` characters long:
+ * the last record boundary, else the best separator that keeps the chunk at
+ * least half full, else `limit`.
+ */
+function findBreak(
+  text: string,
+  start: number,
+  limit: number,
+  separators: string[],
+  records: number[] | undefined,
+): number {
+  if (records) {
+    const index = firstRecordFrom(records, limit + 1) - 1;
+    if (index >= 0 && records[index] > start) {
+      return records[index];
+    }
+  }
+  let fallback = -1;
+  for (const separator of separators) {
+    const index = text.lastIndexOf(separator, limit - separator.length);
+    if (index < start) {
+      continue;
+    }
+    if (index + 1 - start >= (limit - start) / 2) {
+      return index + 1;
+    }
+    fallback = Math.max(fallback, index + 1);
+  }
+  if (fallback > start) {
+    return fallback;
+  }
+  return isHighSurrogate(text, limit - 1) && limit - 1 > start
+    ? limit - 1
+    : limit;
+}
+
+/**
+ * Start of the chunk after one ending at `end`, repeating up to `overlap`
+ * characters from the end of the previous chunk without splitting a word or
+ * record.
+ */
+function nextStart(
+  text: string,
+  start: number,
+  end: number,
+  overlap: number,
+  records: number[] | undefined,
+): number {
+  if (overlap === 0) {
+    return end;
+  }
+  const from = Math.max(start + 1, end - overlap);
+  if (records) {
+    const record = records[firstRecordFrom(records, from)];
+    return record !== undefined && record < end ? record : end;
+  }
+  for (let i = from; i < end; i++) {
+    if (/\s/.test(text[i - 1])) {
+      return i;
+    }
+  }
+  return end;
+}
+
+/**
+ * Split a converted document into spans of at most `chunkSize` characters.
+ * Records are never split unless a single record is longer than a chunk;
+ * free text is split at the best of `separators`. Whitespace-only spans are
+ * dropped.
+ */
+export function splitDocument(
+  document: ConvertedDocument,
+  chunkSize: number,
+  overlap: number,
+  separators: string[],
+): TextSpan[] {
+  const { text, records } = document;
+  const spans: TextSpan[] = [];
+  let start = document.header === undefined ? 0 : (records?.[0] ?? text.length);
+  while (start < text.length) {
+    const limit = start + chunkSize;
+    const end =
+      limit >= text.length
+        ? text.length
+        : findBreak(text, start, limit, separators, records);
+
+    const raw = text.slice(start, end);
+    const trimmed = raw.trim();
+    if (trimmed) {
+      spans.push({
+        offset: start + (raw.length - raw.trimStart().length),
+        length: trimmed.length,
+        text: trimmed,
+      });
+    }
+    if (end >= text.length) {
+      break;
+    }
+    start = nextStart(text, start, end, overlap, records);
+  }
+  return spans;
+}
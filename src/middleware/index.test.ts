@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from "vitest";
+import { NetworkError, type TransportRequest } from "../client";
+import { FakeNextrowsServer } from "../testing";
+import { createLoggingMiddleware, type Logger } from "./index";
+
+const apiKey = "sk-nr-secret-key";
+
+function fakeLogger() {
+  return {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  } satisfies Logger;
+}
+
+describe("middleware", () => {
+  it("should compose middleware in order, like Koa", async () => {
+    const calls: string[] = [];
+    const server = new FakeNextrowsServer();
+    const client = server.createClient({
+      apiKey,
+      middleware: [
+        async (request, next) => {
+          calls.push("outer:before");
+          const response = await next(request);
+          calls.push("outer:after");
+          return response;
+        },
+        async (request, next) => {
+          calls.push("inner:before");
+          const response = await next({
+            ...request,
+            headers: { ...request.headers, "X-Trace": "abc" },
+          });
+          calls.push("inner:after");
+          return {
+            ...response,
+            data: { success: true, data: { credits: 42 } },
+          };
+        },
+      ],
+    });
+
+    const result = await client.getCredits();
+
+    expect(calls).toEqual([
+      "outer:before",
+      "inner:before",
+      "inner:after",
+      "outer:after",
+    ]);
+    expect(server.requests[0].headers).toMatchObject({
+      Authorization: `Bearer ${apiKey}`,
+      "X-Trace": "abc",
+    });
+    expect(result.data?.credits).toBe(42);
+  });
+
+  it("should call onRequest, onResponse and onError hooks", async () => {
+    const seen: TransportRequest[] = [];
+    const onError = vi.fn();
+    const server = new FakeNextrowsServer()
+      .app("abc123xyz", [{ a: 1 }])
+      .fail("network", { path: "/v1/credits" });
+    const client = server.createClient({
+      retry: false,
+      middleware: [
+        {
+          onRequest: (request) => {
+            seen.push(request);
+            return {
+              ...request,
+              body: { ...(request.body as object), inputs: [] },
+            };
+          },
+          onResponse: (response) =>
+            response.status === 200
+              ? {
+                  ...response,
+                  data: { ...(response.data as object), runId: "run_hooked" },
+                }
+              : undefined,
+          onError,
+        },
+      ],
+    });
+
+    const result = await client.runAppJson({
+      appId: "abc123xyz",
+      inputs: [{ key: "url", value: "https://example.com" }],
+    });
+    await expect(client.getCredits()).rejects.toBeInstanceOf(NetworkError);
+
+    expect(result.runId).toBe("run_hooked");
+    expect(server.requests[0].body).toEqual({ appId: "abc123xyz", inputs: [] });
+    expect(seen.map((request) => request.path)).toEqual([
+      "/v1/apps/run/json",
+      "/v1/credits",
+    ]);
+    expect(onError).toHaveBeenCalledWith(
+      expect.any(NetworkError),
+      expect.objectContaining({ path: "/v1/credits" }),
+    );
+  });
+
+  it("should run middleware for every retry attempt", async () => {
+    const attempts = vi.fn();
+    const server = new FakeNextrowsServer().fail({ status: 503 });
+    const client = server.createClient({
+      retry: { initialDelay: 1, jitter: false },
+      middleware: [{ onRequest: attempts }],
+    });
+
+    await client.getCredits();
+
+    expect(attempts).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("logging", () => {
+  it("should log structured entries with the API key redacted", async () => {
+    const logger = fakeLogger();
+    const server = new FakeNextrowsServer().app("abc123xyz", [{ a: 1 }]);
+    const client = server.createClient({ apiKey, logging: { logger } });
+
+    await client.runAppJson({
+      appId: "abc123xyz",
+      inputs: [{ key: "note", value: `leaked ${apiKey}` }],
+    });
+
+    expect(logger.info).toHaveBeenCalledTimes(1);
+    const [entry, message] = logger.info.mock.calls[0];
+    expect(entry).toMatchObject({
+      method: "POST",
+      path: "/v1/apps/run/json",
+      status: 200,
+      runId: "run_1",
+      elapsedTime: expect.any(Number),
+      duration: expect.any(Number),
+      headers: { Authorization: "Bearer [REDACTED]" },
+      body: { inputs: [{ key: "note", value: "leaked [REDACTED]" }] },
+    });
+    expect(message).toMatch(/^POST \/v1\/apps\/run\/json 200 \d+ms$/);
+    expect(JSON.stringify(logger.info.mock.calls)).not.toContain(apiKey);
+  });
+
+  it("should drop bodies and log failures at warn and error", async () => {
+    const logger = fakeLogger();
+    const server = new FakeNextrowsServer()
+      .fail({ status: 404, error: "App not found" })
+      .fail("timeout");
+    const client = server.createClient({
+      apiKey,
+      retry: false,
+      middleware: [createLoggingMiddleware({ logger, includeBodies: false })],
+    });
+
+    await client.runAppJson({ appId: "missing", inputs: [] }).catch(() => {});
+    await client.getCredits().catch(() => {});
+
+    expect(logger.warn.mock.calls[0][0]).toMatchObject({ status: 404 });
+    expect(logger.warn.mock.calls[0][0]).not.toHaveProperty("body");
+    expect(logger.error.mock.calls[0][0]).toMatchObject({
+      path: "/v1/credits",
+      error: "Request to /v1/credits timed out",
+    });
+  });
+});
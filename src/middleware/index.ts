@@ -0,0 +1,122 @@
+import { type NextrowsError, toNextrowsError } from "../errors";
+import type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "../transport";
+
+export {
+  createLoggingMiddleware,
+  type Logger,
+  type LoggingOptions,
+  type RequestLogEntry,
+} from "./logging";
+
+/**
+ * Sends the request to the next middleware, or to the transport at the end
+ * of the pipeline.
+ */
+export type MiddlewareNext = (
+  request: TransportRequest,
+) => Promise<TransportResponse>;
+
+/**
+ * A middleware function. It can change the request before calling `next`,
+ * change the response it returns, or handle errors thrown by `next`.
+ * Middleware runs in order, each wrapping the ones after it, like Koa.
+ *
+ * @example
+ * ```typescript
+ * const timing: MiddlewareFunction = async (request, next) => {
+ *   const started = Date.now();
+ *   try {
+ *     return await next({
+ *       ...request,
+ *       headers: { ...request.headers, "X-Request-Id": crypto.randomUUID() },
+ *     });
+ *   } finally {
+ *     metrics.timing(request.path, Date.now() - started);
+ *   }
+ * };
+ * ```
+ */
+export type MiddlewareFunction = (
+  request: TransportRequest,
+  next: MiddlewareNext,
+) => Promise<TransportResponse>;
+
+/**
+ * Hooks called around every request. Each hook may be async.
+ */
+export interface MiddlewareHooks {
+  /**
+   * Called before the request is sent. Return a request to replace it.
+   */
+  onRequest?: (
+    request: TransportRequest,
+  ) => TransportRequest | undefined | Promise<TransportRequest | undefined>;
+
+  /**
+   * Called with every response, including error statuses. Return a response
+   * to replace it.
+   */
+  onResponse?: (
+    response: TransportResponse,
+    request: TransportRequest,
+  ) => TransportResponse | undefined | Promise<TransportResponse | undefined>;
+
+  /**
+   * Called when no response was received (timeout or network failure).
+   * The error is rethrown afterwards.
+   */
+  onError?: (
+    error: NextrowsError,
+    request: TransportRequest,
+  ) => void | Promise<void>;
+}
+
+/**
+ * A middleware function or a set of hooks.
+ */
+export type Middleware = MiddlewareFunction | MiddlewareHooks;
+
+function fromHooks(hooks: MiddlewareHooks): MiddlewareFunction {
+  return async (request, next) => {
+    const sent = (await hooks.onRequest?.(request)) ?? request;
+    let response: TransportResponse;
+    try {
+      response = await next(sent);
+    } catch (error) {
+      const nextrowsError = toNextrowsError(error, sent.path);
+      await hooks.onError?.(nextrowsError, sent);
+      throw nextrowsError;
+    }
+    return (await hooks.onResponse?.(response, sent)) ?? response;
+  };
+}
+
+/**
+ * Wrap a transport so requests pass through the middleware, in order.
+ */
+export function applyMiddleware(
+  transport: Transport,
+  middleware: Middleware[],
+): Transport {
+  if (middleware.length === 0) {
+    return transport;
+  }
+  const functions = middleware.map((item) =>
+    typeof item === "function" ? item : fromHooks(item),
+  );
+  const dispatch = (
+    index: number,
+    request: TransportRequest,
+  ): Promise<TransportResponse> =>
+    index < functions.length
+      ? functions[index](request, (next) => dispatch(index + 1, next))
+      : transport.request(request);
+  return {
+    request: <T>(request: TransportRequest) =>
+      dispatch(0, request) as Promise<TransportResponse<T>>,
+  };
+}
@@ -0,0 +1,177 @@
+import { toNextrowsError } from "../errors";
+import type { TransportRequest } from "../transport";
+import type { MiddlewareFunction } from "./index";
+
+type LogMethod = (...args: unknown[]) => void;
+
+/**
+ * A pino- or console-style logger. Entries are logged as
+ * `logger[level](entry, message)`, which pino, bunyan, winston and `console`
+ * all accept.
+ */
+export interface Logger {
+  info: LogMethod;
+  warn: LogMethod;
+  error: LogMethod;
+}
+
+/**
+ * Structured entry logged for every request.
+ */
+export interface RequestLogEntry {
+  method: string;
+  path: string;
+
+  /**
+   * HTTP status, absent when no response was received.
+   */
+  status?: number;
+
+  /**
+   * Time from sending the request to receiving the response, in milliseconds.
+   */
+  duration: number;
+
+  runId?: string;
+
+  /**
+   * Time the app took to run, as reported by the API, in milliseconds.
+   */
+  elapsedTime?: number;
+
+  /**
+   * Whether the response was served from the cache.
+   */
+  cached?: boolean;
+
+  /**
+   * Request headers, with the API key redacted.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Request body, unless `includeBodies` is `false`.
+   */
+  body?: unknown;
+
+  /**
+   * Error message, for failed requests.
+   */
+  error?: string;
+}
+
+/**
+ * Options for {@link createLoggingMiddleware}.
+ */
+export interface LoggingOptions {
+  /**
+   * Where entries are written.
+   * @default console
+   */
+  logger?: Logger;
+
+  /**
+   * Whether request bodies are logged. Disable to keep scraped content and
+   * prompts out of logs.
+   * @default true
+   */
+  includeBodies?: boolean;
+}
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Copy a value, replacing every occurrence of the secret in its strings.
+ */
+function redact(value: unknown, secret: string): unknown {
+  if (typeof value === "string") {
+    return secret ? value.split(secret).join(REDACTED) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, secret));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, redact(item, secret)]),
+    );
+  }
+  return value;
+}
+
+function bearerToken(request: TransportRequest): string {
+  const header = Object.entries(request.headers ?? {}).find(
+    ([name]) => name.toLowerCase() === "authorization",
+  )?.[1];
+  return header?.replace(/^Bearer\s+/i, "") ?? "";
+}
+
+/**
+ * Create a middleware logging one structured entry per request: method,
+ * path, status, duration, `runId` and `elapsedTime`. The API key is always
+ * redacted, wherever it appears.
+ *
+ * Successful requests are logged at `info`, error statuses at `warn` and
+ * requests without a response at `error`.
+ *
+ * @example
+ * ```typescript
+ * import pino from "pino";
+ *
+ * const client = new Nextrows({
+ *   apiKey,
+ *   logging: { logger: pino(), includeBodies: false },
+ * });
+ * // {"method":"POST","path":"/v1/apps/run/json","status":200,"duration":2710,"runId":"run_abc123","elapsedTime":2500,...}
+ * ```
+ */
+export function createLoggingMiddleware(
+  options: LoggingOptions = {},
+): MiddlewareFunction {
+  const { logger = console, includeBodies = true } = options;
+
+  return async (request, next) => {
+    const secret = bearerToken(request);
+    const started = Date.now();
+    const base = {
+      method: request.method,
+      path: request.path,
+      headers: request.headers ?? {},
+      ...(includeBodies && request.body !== undefined
+        ? { body: request.body }
+        : {}),
+    };
+    const log = (level: keyof Logger, entry: RequestLogEntry) => {
+      const message = `${entry.method} ${entry.path}${
+        entry.status !== undefined ? ` ${entry.status}` : ""
+      } ${entry.duration}ms`;
+      logger[level](redact(entry, secret), redact(message, secret));
+    };
+
+    try {
+      const response = await next(request);
+      const data = (response.data ?? {}) as {
+        runId?: unknown;
+        elapsedTime?: unknown;
+        cache?: unknown;
+      };
+      log(response.status >= 400 ? "warn" : "info", {
+        ...base,
+        status: response.status,
+        duration: Date.now() - started,
+        ...(typeof data.runId === "string" ? { runId: data.runId } : {}),
+        ...(typeof data.elapsedTime === "number"
+          ? { elapsedTime: data.elapsedTime }
+          : {}),
+        ...(data.cache ? { cached: true } : {}),
+      });
+      return response;
+    } catch (error) {
+      log("error", {
+        ...base,
+        duration: Date.now() - started,
+        error: toNextrowsError(error, request.path).message,
+      });
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,192 @@
+import { getEventListeners } from "node:events";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import {
+  AbortError,
+  Nextrows,
+  type RateLimitOptions,
+  type Transport,
+} from "../client";
+import { FakeNextrowsServer } from "../testing";
+import { FileRateLimitStore, MemoryRateLimitStore } from "./index";
+
+/**
+ * A transport sending requests to the server, counting the requests in
+ * flight at once.
+ */
+function countInFlight(server: FakeNextrowsServer) {
+  const inFlight = { current: 0, max: 0 };
+  const transport: Transport = {
+    async request(request) {
+      inFlight.current++;
+      inFlight.max = Math.max(inFlight.max, inFlight.current);
+      try {
+        return await server.request(request);
+      } finally {
+        inFlight.current--;
+      }
+    },
+  };
+  return { transport, inFlight };
+}
+
+function limitedClient(rateLimit: RateLimitOptions, latency = 20) {
+  const server = new FakeNextrowsServer({ latency }).app("abc123xyz", []);
+  const { transport, inFlight } = countInFlight(server);
+  const client = new Nextrows({
+    apiKey: "sk-nr-test",
+    transport,
+    rateLimit,
+  });
+  return { client, server, inFlight };
+}
+
+describe("rate limiting", () => {
+  it("should cap the requests in flight across all methods", async () => {
+    const { client, inFlight } = limitedClient({ maxConcurrent: 2 });
+
+    await Promise.all([
+      client.getCredits(),
+      client.runAppJson({ appId: "abc123xyz", inputs: [] }),
+      client.runAppTable({ appId: "abc123xyz", inputs: [] }),
+      client.extract({ type: "text", data: ["a"] }),
+      client.getCredits(),
+    ]);
+
+    expect(inFlight.max).toBe(2);
+    expect(client.rateLimiter?.stats()).toMatchObject({
+      queued: 0,
+      active: 0,
+      requests: 5,
+      delayed: 3,
+    });
+  });
+
+  it("should space requests with a token bucket and report waits", async () => {
+    const onWait = vi.fn();
+    const { client } = limitedClient(
+      { requestsPerSecond: 20, burst: 1, onWait },
+      0,
+    );
+    const started = Date.now();
+
+    await Promise.all([
+      client.getCredits(),
+      client.getCredits(),
+      client.getCredits(),
+    ]);
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+    expect(onWait).toHaveBeenCalledTimes(2);
+    expect(onWait.mock.calls[0][0]).toMatchObject({
+      path: "/v1/credits",
+      bucket: "nextrows:*",
+      waitTime: expect.any(Number),
+      queued: 1,
+    });
+    expect(client.rateLimiter?.stats().maxWaitTime).toBeGreaterThanOrEqual(80);
+  });
+
+  it("should apply endpoint rules instead of the shared rule", async () => {
+    const { client, inFlight } = limitedClient({
+      endpoints: { "/v1/apps/run/json": { maxConcurrent: 1 } },
+    });
+    const runs = Array.from({ length: 3 }, () =>
+      client.runAppJson({ appId: "abc123xyz", inputs: [] }),
+    );
+
+    await Promise.all(runs);
+    expect(inFlight.max).toBe(1);
+
+    await Promise.all([client.getCredits(), client.getCredits()]);
+    expect(inFlight.max).toBe(2);
+  });
+
+  it("should cancel queued requests", async () => {
+    const { client, server } = limitedClient({ maxConcurrent: 1 }, 100);
+    const controller = new AbortController();
+
+    const first = client.getCredits();
+    const second = client
+      .getCredits({ signal: controller.signal })
+      .catch((e) => e);
+    await vi.waitFor(() => expect(client.rateLimiter?.stats().queued).toBe(1));
+    controller.abort();
+
+    expect(await second).toBeInstanceOf(AbortError);
+    expect(client.rateLimiter?.stats().queued).toBe(0);
+    await first;
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it("should remove abort listeners of throttled requests", async () => {
+    const { client } = limitedClient({ requestsPerSecond: 100, burst: 1 }, 0);
+    const { signal } = new AbortController();
+
+    await Promise.all(
+      Array.from({ length: 5 }, () => client.getCredits({ signal })),
+    );
+
+    expect(getEventListeners(signal, "abort")).toEqual([]);
+  });
+
+  it("should share limits between clients through a store", async () => {
+    const store = new MemoryRateLimitStore();
+    const server = new FakeNextrowsServer({ latency: 20 });
+    const clients = [
+      server.createClient({ rateLimit: { maxConcurrent: 1, store } }),
+      server.createClient({ rateLimit: { maxConcurrent: 1, store } }),
+    ];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    server.onExtract(async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      inFlight--;
+      return [];
+    });
+
+    await Promise.all(
+      clients.flatMap((client) => [
+        client.extract({ type: "text", data: ["a"] }),
+        client.extract({ type: "text", data: ["b"] }),
+      ]),
+    );
+
+    expect(maxInFlight).toBe(1);
+  });
+
+  it("should share limits between processes with the file store", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "nextrows-rate-limit-"));
+    try {
+      const { transport, inFlight } = countInFlight(
+        new FakeNextrowsServer({ latency: 20 }),
+      );
+      // Separate store instances, as in separate processes
+      const [first, second] = [1, 2].map(
+        () =>
+          new Nextrows({
+            apiKey: "sk-nr-test",
+            transport,
+            rateLimit: {
+              maxConcurrent: 1,
+              store: new FileRateLimitStore(directory),
+            },
+          }),
+      );
+
+      await Promise.all([
+        first.getCredits(),
+        second.getCredits(),
+        first.getCredits(),
+        second.getCredits(),
+      ]);
+
+      expect(inFlight.max).toBe(1);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
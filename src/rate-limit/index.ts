@@ -0,0 +1,397 @@
+import { createAbortError } from "../errors";
+import { sleep } from "../retry";
+import type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "../transport";
+import {
+  MemoryRateLimitStore,
+  type RateLimitState,
+  type RateLimitStore,
+} from "./stores";
+
+export {
+  FileRateLimitStore,
+  MemoryRateLimitStore,
+  type RateLimitState,
+  type RateLimitStore,
+} from "./stores";
+
+/**
+ * Limits applied to a group of requests. Without `requestsPerSecond` and
+ * `maxConcurrent`, requests are not limited.
+ */
+export interface RateLimitRule {
+  /**
+   * Requests started per second, on average (token bucket refill rate).
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * Requests that may start at once after an idle period (token bucket
+   * size).
+   * @default Math.ceil(requestsPerSecond)
+   */
+  burst?: number;
+
+  /**
+   * Requests in flight at once.
+   */
+  maxConcurrent?: number;
+}
+
+/**
+ * Reported through {@link RateLimitOptions.onWait} when a request had to
+ * wait for the limiter.
+ */
+export interface RateLimitWaitEvent {
+  path: string;
+
+  /**
+   * The store key of the bucket the request waited for.
+   */
+  bucket: string;
+
+  /**
+   * Time the request waited, in milliseconds.
+   */
+  waitTime: number;
+
+  /**
+   * Requests still waiting after this one.
+   */
+  queued: number;
+}
+
+/**
+ * Snapshot of the limiter returned by {@link RateLimiter.stats}.
+ */
+export interface RateLimitStats {
+  /**
+   * Requests waiting for the limiter.
+   */
+  queued: number;
+
+  /**
+   * Requests sent by this client and not yet answered.
+   */
+  active: number;
+
+  /**
+   * Requests that passed the limiter.
+   */
+  requests: number;
+
+  /**
+   * Requests that had to wait.
+   */
+  delayed: number;
+
+  /**
+   * Total time requests waited, in milliseconds.
+   */
+  totalWaitTime: number;
+
+  /**
+   * Longest time a request waited, in milliseconds.
+   */
+  maxWaitTime: number;
+}
+
+/**
+ * Options for client-side rate limiting. The top-level rule is shared by all
+ * endpoints without their own entry in `endpoints`.
+ */
+export interface RateLimitOptions extends RateLimitRule {
+  /**
+   * Rules replacing the shared rule for specific API paths, such as
+   * `"/v1/extract"` or `"/v1/apps/run/json"`.
+   */
+  endpoints?: Record<string, RateLimitRule>;
+
+  /**
+   * Where bucket state is kept. Pass the same store to several clients, or a
+   * {@link FileRateLimitStore} to several processes, to share limits.
+   * @default new MemoryRateLimitStore()
+   */
+  store?: RateLimitStore;
+
+  /**
+   * Prefix of the bucket keys in the store. Limiters with the same prefix
+   * share their buckets.
+   * @default "nextrows"
+   */
+  key?: string;
+
+  /**
+   * Time in milliseconds after which a request's concurrency slot is freed
+   * even if it never finished, e.g. because its process crashed.
+   * @default 300000 (5 minutes)
+   */
+  leaseTimeout?: number;
+
+  /**
+   * Called whenever a request had to wait for the limiter.
+   */
+  onWait?: (event: RateLimitWaitEvent) => void;
+}
+
+/**
+ * How often a request waiting for a concurrency slot held by another
+ * limiter checks the store again, in milliseconds.
+ */
+const CONCURRENCY_POLL_INTERVAL = 100;
+
+interface Bucket {
+  key: string;
+  rule: RateLimitRule;
+}
+
+/**
+ * Take a token and a concurrency slot from a bucket. Returns the new state
+ * and how long to wait before trying again, or `0` when the request may go.
+ */
+function take(
+  state: RateLimitState | undefined,
+  rule: RateLimitRule,
+  lease: { id: string; expiresAt: number },
+  now: number,
+): { state: RateLimitState; wait: number } {
+  const { requestsPerSecond: rate, maxConcurrent } = rule;
+  const burst = rule.burst ?? Math.max(1, Math.ceil(rate ?? 1));
+  const leases = Object.fromEntries(
+    Object.entries(state?.leases ?? {}).filter(
+      ([, expiresAt]) => expiresAt > now,
+    ),
+  );
+  const tokens = rate
+    ? Math.min(
+        burst,
+        (state?.tokens ?? burst) +
+          ((now - (state?.updatedAt ?? now)) / 1000) * rate,
+      )
+    : 0;
+  const next = { tokens, updatedAt: now, leases };
+
+  if (maxConcurrent && Object.keys(leases).length >= maxConcurrent) {
+    return { state: next, wait: CONCURRENCY_POLL_INTERVAL };
+  }
+  if (rate && tokens < 1) {
+    return { state: next, wait: Math.ceil(((1 - tokens) / rate) * 1000) };
+  }
+  return {
+    state: {
+      tokens: rate ? tokens - 1 : 0,
+      updatedAt: now,
+      leases: { ...leases, [lease.id]: lease.expiresAt },
+    },
+    wait: 0,
+  };
+}
+
+/**
+ * Resolve once `promise` does, or reject with an `AbortError` when the
+ * signal is aborted first.
+ */
+function waitFor(promise: Promise<void>, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(createAbortError(signal));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Client-side rate limiter: a token bucket limiting requests per second and
+ * a cap on requests in flight, shared by every method of a client.
+ *
+ * Requests waiting for the same bucket are sent first in, first out. Bucket
+ * state lives in a {@link RateLimitStore}, so limiters sharing a store share
+ * their limits. Waiting requests can be cancelled with their `signal`.
+ */
+export class RateLimiter implements Transport {
+  private readonly store: RateLimitStore;
+  private readonly queues = new Map<string, Promise<void>>();
+  private readonly sleepers = new Set<() => void>();
+  private readonly pauses = new Map<string, number>();
+  private queued = 0;
+  private active = 0;
+  private requests = 0;
+  private delayed = 0;
+  private totalWaitTime = 0;
+  private maxWaitTime = 0;
+  private leaseCount = 0;
+
+  /**
+   * @param transport - The transport sending requests once they may go
+   * @param options - Limits, store and wait callback
+   */
+  constructor(
+    private readonly transport: Transport,
+    private readonly options: RateLimitOptions = {},
+  ) {
+    this.store = options.store ?? new MemoryRateLimitStore();
+  }
+
+  async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const bucket = this.bucketFor(request.path);
+    if (!bucket) {
+      return this.transport.request<T>(request);
+    }
+
+    const lease = await this.acquire(bucket, request);
+    this.active++;
+    try {
+      return await this.transport.request<T>(request);
+    } finally {
+      this.active--;
+      await this.release(bucket, lease);
+    }
+  }
+
+  /**
+   * Current queue depth, requests in flight and wait times.
+   */
+  stats(): RateLimitStats {
+    return {
+      queued: this.queued,
+      active: this.active,
+      requests: this.requests,
+      delayed: this.delayed,
+      totalWaitTime: this.totalWaitTime,
+      maxWaitTime: this.maxWaitTime,
+    };
+  }
+
+  private bucketFor(path: string): Bucket | undefined {
+    const prefix = this.options.key ?? "nextrows";
+    const endpoint = this.options.endpoints?.[path];
+    const [key, rule] = endpoint
+      ? [`${prefix}:${path}`, endpoint]
+      : [`${prefix}:*`, this.options];
+    return rule.requestsPerSecond || rule.maxConcurrent
+      ? { key, rule }
+      : undefined;
+  }
+
+  private async acquire(
+    bucket: Bucket,
+    request: TransportRequest,
+  ): Promise<string> {
+    const { signal } = request;
+    const started = Date.now();
+    const id = `${started}-${++this.leaseCount}-${Math.random()
+      .toString(36)
+      .slice(2)}`;
+
+    // Each request waits for the previous one in the same bucket to get
+    // through, so the queue is first in, first out
+    const pauses = this.pauses.get(bucket.key) ?? 0;
+    const previous = this.queues.get(bucket.key) ?? Promise.resolve();
+    let done = () => {};
+    const turn = new Promise<void>((resolve) => {
+      done = resolve;
+    });
+    const tail = previous.then(() => turn);
+    this.queues.set(bucket.key, tail);
+    this.queued++;
+
+    try {
+      await waitFor(previous, signal);
+      for (;;) {
+        if (signal?.aborted) {
+          throw createAbortError(signal);
+        }
+        const wait = await this.take(bucket, id);
+        if (wait === 0) {
+          break;
+        }
+        this.pauses.set(bucket.key, (this.pauses.get(bucket.key) ?? 0) + 1);
+        await this.pause(wait, signal);
+      }
+    } finally {
+      this.queued--;
+      done();
+      if (this.queues.get(bucket.key) === tail) {
+        this.queues.delete(bucket.key);
+      }
+    }
+
+    const waitTime = Date.now() - started;
+    this.requests++;
+    // Requests were delayed if they, or requests ahead of them, had to pause
+    if ((this.pauses.get(bucket.key) ?? 0) > pauses) {
+      this.delayed++;
+      this.totalWaitTime += waitTime;
+      this.maxWaitTime = Math.max(this.maxWaitTime, waitTime);
+      this.options.onWait?.({
+        path: request.path,
+        bucket: bucket.key,
+        waitTime,
+        queued: this.queued,
+      });
+    }
+    return id;
+  }
+
+  private async take(bucket: Bucket, id: string): Promise<number> {
+    let wait = 0;
+    const expiresAt = Date.now() + (this.options.leaseTimeout ?? 300_000);
+    await this.store.update(bucket.key, (state) => {
+      const result = take(state, bucket.rule, { id, expiresAt }, Date.now());
+      wait = result.wait;
+      return result.state;
+    });
+    return wait;
+  }
+
+  private async release(bucket: Bucket, id: string): Promise<void> {
+    try {
+      await this.store.update(bucket.key, (state) => {
+        const leases = { ...state?.leases };
+        delete leases[id];
+        return { tokens: 0, updatedAt: Date.now(), ...state, leases };
+      });
+    } catch {
+      // The lease expires after `leaseTimeout` instead
+    }
+    for (const wake of this.sleepers) {
+      wake();
+    }
+  }
+
+  /**
+   * Sleep until the bucket may have room again, or until a request of this
+   * limiter finishes and frees a concurrency slot.
+   */
+  private async pause(ms: number, signal?: AbortSignal): Promise<void> {
+    let wake = () => {};
+    const released = new Promise<void>((resolve) => {
+      wake = resolve;
+    });
+    this.sleepers.add(wake);
+    const timer = new AbortController();
+    try {
+      await Promise.race([
+        sleep(ms, timer.signal).catch(() => {}),
+        waitFor(released, signal),
+      ]);
+    } finally {
+      timer.abort();
+      this.sleepers.delete(wake);
+      // Settle `released` so that waitFor removes its abort listener
+      wake();
+    }
+  }
+}
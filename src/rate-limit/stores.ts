@@ -0,0 +1,122 @@
+import { sleep } from "../retry";
+
+/**
+ * Shared state of one rate limit bucket.
+ */
+export interface RateLimitState {
+  /**
+   * Tokens left in the bucket when it was last updated.
+   */
+  tokens: number;
+
+  /**
+   * When the bucket was last updated, in milliseconds since the epoch.
+   */
+  updatedAt: number;
+
+  /**
+   * Requests in flight, by lease id, with the time their lease expires.
+   */
+  leases: Record<string, number>;
+}
+
+/**
+ * Storage backend of the rate limiter. Limiters sharing a store share their
+ * limits, across processes if the store does.
+ */
+export interface RateLimitStore {
+  /**
+   * Atomically replace the state of a bucket with `update(state)` and
+   * return the new state. `state` is `undefined` for unknown buckets.
+   */
+  update(
+    key: string,
+    update: (state: RateLimitState | undefined) => RateLimitState,
+  ): Promise<RateLimitState> | RateLimitState;
+}
+
+/**
+ * Rate limit store keeping buckets in memory. Share one instance between
+ * clients to share their limits within a process.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly states = new Map<string, RateLimitState>();
+
+  update(
+    key: string,
+    update: (state: RateLimitState | undefined) => RateLimitState,
+  ): RateLimitState {
+    const state = update(this.states.get(key));
+    this.states.set(key, state);
+    return state;
+  }
+}
+
+const LOCK_RETRY_DELAY = 5;
+
+/**
+ * Rate limit store keeping one JSON file per bucket in a directory, guarded
+ * by a lock file, so that processes on the same machine share their limits.
+ * Node.js only.
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  /**
+   * @param directory - Directory holding the bucket files, created if needed
+   * @param staleLockAfter - Age in milliseconds after which a lock file left
+   * behind by a crashed process is removed (default 10000)
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly staleLockAfter = 10_000,
+  ) {}
+
+  async update(
+    key: string,
+    update: (state: RateLimitState | undefined) => RateLimitState,
+  ): Promise<RateLimitState> {
+    const { mkdir, readFile, rename, rm, writeFile } = await import(
+      "node:fs/promises"
+    );
+    const { join } = await import("node:path");
+    await mkdir(this.directory, { recursive: true });
+    const file = join(this.directory, `${encodeURIComponent(key)}.json`);
+    const lock = `${file}.lock`;
+
+    await this.lock(lock);
+    try {
+      let state: RateLimitState | undefined;
+      try {
+        state = JSON.parse(await readFile(file, "utf8"));
+      } catch {
+        state = undefined;
+      }
+      const next = update(state);
+      const temporary = `${file}.tmp`;
+      await writeFile(temporary, JSON.stringify(next), "utf8");
+      await rename(temporary, file);
+      return next;
+    } finally {
+      await rm(lock, { force: true });
+    }
+  }
+
+  private async lock(lock: string): Promise<void> {
+    const { open, rm, stat } = await import("node:fs/promises");
+    for (;;) {
+      try {
+        await (await open(lock, "wx")).close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+      const info = await stat(lock).catch(() => undefined);
+      if (info && Date.now() - info.mtimeMs > this.staleLockAfter) {
+        await rm(lock, { force: true });
+      } else {
+        await sleep(LOCK_RETRY_DELAY);
+      }
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import {
+  createAbortError,
+  NetworkError,
+  NextrowsError,
+  TimeoutError,
+} from "../errors";
+
+/**
+ * Options controlling automatic retries of failed requests.
+ *
+ * Requests are retried on network failures, 408, 429, 500, 502, 503 and 504
+ * responses. Authentication (401), credit (402) and not found (404) errors
+ * are never retried.
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts, including the first request.
+   * Set to `1` to disable retries.
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds.
+   * @default 500
+   */
+  initialDelay?: number;
+
+  /**
+   * Maximum delay between two attempts in milliseconds.
+   * Also caps delays requested by a `Retry-After` header.
+   * @default 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * Multiplier applied to the delay after each retry.
+   * @default 2
+   */
+  factor?: number;
+
+  /**
+   * Randomize each delay between zero and the computed backoff ("full jitter")
+   * so that concurrent clients do not retry in lockstep.
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * Whether to retry requests that exceeded the timeout. Disabled by default
+   * because the API may still be processing (and billing) the timed out run.
+   * @default false
+   */
+  retryOnTimeout?: boolean;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  initialDelay: 500,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true,
+  retryOnTimeout: false,
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Merge client-level and per-call retry options.
+ * `false` at either level disables retries.
+ */
+export function resolveRetryOptions(
+  base: RetryOptions | false | undefined,
+  override?: RetryOptions | false,
+): Required<RetryOptions> {
+  if (base === false || override === false) {
+    return { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_OPTIONS, ...base, ...override };
+}
+
+function isRetryable(
+  error: NextrowsError,
+  options: Required<RetryOptions>,
+): boolean {
+  if (error instanceof TimeoutError) {
+    return options.retryOnTimeout;
+  }
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  return error.status !== undefined && RETRYABLE_STATUSES.has(error.status);
+}
+
+function getDelay(
+  error: NextrowsError,
+  retry: number,
+  options: Required<RetryOptions>,
+): number {
+  if (error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter, options.maxDelay);
+  }
+  const backoff = Math.min(
+    options.initialDelay * options.factor ** (retry - 1),
+    options.maxDelay,
+  );
+  return options.jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting with an `AbortError` as soon as the
+ * signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a request, retrying it with exponential backoff when it fails with a
+ * retryable error. The number of retries performed is recorded on the
+ * final error's `retryCount`.
+ *
+ * @param fn - Function performing a single attempt
+ * @param options - Resolved retry options
+ * @param signal - Signal cancelling the request and any pending retry
+ * @throws {AbortError} When the signal is aborted, without further retries
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: Required<RetryOptions>,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw createAbortError(signal);
+    }
+    try {
+      return await fn();
+    } catch (error) {
+      if (!(error instanceof NextrowsError)) {
+        throw error;
+      }
+      error.retryCount = attempt - 1;
+      if (attempt >= options.maxAttempts || !isRetryable(error, options)) {
+        throw error;
+      }
+      await sleep(getDelay(error, attempt, options), signal);
+    }
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Generic Zod schema type that works with both Zod v3 and v4.
+ * We use a structural type to avoid coupling to specific Zod versions.
+ */
+export interface ZodLike {
+  safeParse: (data: unknown) => unknown;
+  _def: unknown;
+}
+
+/**
+ * A validator implementing the Standard Schema spec (https://standardschema.dev),
+ * such as Zod 3.24+, Valibot or ArkType.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaProps<Input, Output>;
+}
+
+/**
+ * The properties exposed under `~standard` by a Standard Schema validator.
+ */
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  readonly version: 1;
+  readonly vendor: string;
+  readonly validate: (
+    value: unknown,
+  ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+  readonly types?: { readonly input: Input; readonly output: Output };
+}
+
+/**
+ * The result of a Standard Schema `validate` call.
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<
+          PropertyKey | { readonly key: PropertyKey }
+        >;
+      }>;
+    };
+
+/**
+ * A schema the client can validate data with: a Zod schema or any
+ * Standard Schema validator.
+ */
+export type ValidationSchema = ZodLike | StandardSchemaV1;
+
+/**
+ * The output type of a Zod, Standard Schema or TypeBox schema, or `unknown`
+ * for any other schema. Works with Zod v3 (`_output`), Zod v4
+ * (`_zod.output`), Standard Schema (`~standard.types.output`) and TypeBox
+ * (`static`).
+ */
+export type InferSchemaOutput<S> = S extends { _output: infer O }
+  ? O
+  : S extends { _zod: { output: infer O } }
+    ? O
+    : S extends { "~standard": { types?: { output: infer O } } }
+      ? O
+      : S extends { static: infer O }
+        ? O
+        : unknown;
+
+/**
+ * A single problem reported by schema validation.
+ */
+export interface SchemaIssue {
+  /**
+   * Human readable description of the problem.
+   */
+  message: string;
+
+  /**
+   * Path to the offending value.
+   * @example [0, "price"]
+   */
+  path: PropertyKey[];
+}
+
+/**
+ * Result of validating a value against a schema.
+ */
+export type SchemaParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] };
+
+/**
+ * Check if a value is a Zod schema.
+ */
+export function isZodSchema(schema: unknown): schema is ZodLike {
+  return (
+    schema !== null &&
+    (typeof schema === "object" || typeof schema === "function") &&
+    ("_def" in schema || "_zod" in schema) &&
+    "safeParse" in schema &&
+    typeof (schema as ZodLike).safeParse === "function"
+  );
+}
+
+/**
+ * Check if a value implements the Standard Schema spec. Some libraries, such
+ * as ArkType, implement it on callable schemas.
+ */
+export function isStandardSchema(schema: unknown): schema is StandardSchemaV1 {
+  return (
+    schema !== null &&
+    (typeof schema === "object" || typeof schema === "function") &&
+    "~standard" in schema &&
+    typeof (schema as StandardSchemaV1)["~standard"]?.validate === "function"
+  );
+}
+
+interface ZodSafeParseResult {
+  success: boolean;
+  data?: unknown;
+  error?: { issues?: { message: string; path: PropertyKey[] }[] };
+}
+
+/**
+ * Validate a value with a Zod schema's `safeParse` or a Standard Schema
+ * validator's `~standard.validate`.
+ * On success, `data` is the parsed output (with any transforms applied).
+ */
+export async function parseWithSchema<S extends ValidationSchema>(
+  schema: S,
+  data: unknown,
+): Promise<SchemaParseResult<InferSchemaOutput<S>>> {
+  if (isZodSchema(schema)) {
+    const result = schema.safeParse(data) as ZodSafeParseResult;
+    if (result.success) {
+      return { success: true, data: result.data as InferSchemaOutput<S> };
+    }
+    return {
+      success: false,
+      issues: (result.error?.issues ?? []).map(({ message, path }) => ({
+        message,
+        path,
+      })),
+    };
+  }
+
+  const result = await schema["~standard"].validate(data);
+  if (!result.issues) {
+    return { success: true, data: result.value as InferSchemaOutput<S> };
+  }
+  return {
+    success: false,
+    issues: result.issues.map(({ message, path = [] }) => ({
+      message,
+      path: path.map((segment) =>
+        typeof segment === "object" ? segment.key : segment,
+      ),
+    })),
+  };
+}
+
+/**
+ * Format schema issues as a single line for error messages.
+ */
+export function formatIssues(issues: SchemaIssue[]): string {
+  return issues
+    .map(({ message, path }) =>
+      path.length > 0 ? `${path.map(String).join(".")}: ${message}` : message,
+    )
+    .join("; ");
+}
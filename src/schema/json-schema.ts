@@ -0,0 +1,129 @@
+import type { JsonSchema } from "../api/extract";
+import { SchemaConversionError } from "../errors";
+import { isStandardSchema, isZodSchema } from "./index";
+
+/**
+ * Converts a schema of one validation library to JSON Schema.
+ */
+export type JsonSchemaConverter = (
+  schema: unknown,
+) => JsonSchema | Promise<JsonSchema>;
+
+const TYPEBOX_KIND = Symbol.for("TypeBox.Kind");
+
+/**
+ * Import a module that is not a dependency of this package. The specifier is
+ * a variable so that bundlers and the type checker leave it alone.
+ */
+async function importOptional<T>(
+  specifier: string,
+  vendor: string,
+): Promise<T> {
+  try {
+    return await import(/* @vite-ignore */ specifier);
+  } catch (error) {
+    throw new SchemaConversionError(
+      `Converting ${vendor} schemas to JSON Schema requires the ${specifier} package. Install it, or pass a JSON Schema instead`,
+      vendor,
+      { cause: error },
+    );
+  }
+}
+
+const converters = new Map<string, JsonSchemaConverter>([
+  [
+    "zod",
+    async (schema) => {
+      const z = await importOptional<{
+        toJSONSchema?: (schema: unknown) => JsonSchema;
+      }>("zod/v4", "zod");
+      if (typeof z.toJSONSchema !== "function") {
+        throw new SchemaConversionError(
+          "Zod schema conversion requires Zod 3.24+ with the zod/v4 subpath. Install Zod 3.24+, or pass a JSON Schema instead",
+          "zod",
+        );
+      }
+      return z.toJSONSchema(schema);
+    },
+  ],
+  [
+    "valibot",
+    async (schema) => {
+      const { toJsonSchema } = await importOptional<{
+        toJsonSchema: (schema: unknown) => JsonSchema;
+      }>("@valibot/to-json-schema", "valibot");
+      return toJsonSchema(schema);
+    },
+  ],
+  [
+    "arktype",
+    (schema) => (schema as { toJsonSchema(): JsonSchema }).toJsonSchema(),
+  ],
+]);
+
+/**
+ * Register how schemas of a validation library are converted to JSON Schema,
+ * replacing any converter registered for the same vendor. The vendor is the
+ * `~standard.vendor` of the library's Standard Schema implementation.
+ *
+ * Converters for Zod, Valibot (with `@valibot/to-json-schema` installed) and
+ * ArkType are built in. TypeBox schemas are JSON Schemas already.
+ *
+ * @param vendor - The Standard Schema vendor name, e.g. `"effect"`
+ * @param converter - Function returning the JSON Schema of a schema
+ *
+ * @example
+ * ```typescript
+ * import { JSONSchema } from "effect";
+ *
+ * registerSchemaConverter("effect", (schema) => JSONSchema.make(schema));
+ * ```
+ */
+export function registerSchemaConverter(
+  vendor: string,
+  converter: JsonSchemaConverter,
+): void {
+  converters.set(vendor, converter);
+}
+
+/**
+ * Check if a value is a TypeBox schema, which is a JSON Schema with a
+ * `TypeBox.Kind` symbol.
+ */
+export function isTypeBoxSchema(schema: unknown): boolean {
+  return (
+    schema !== null && typeof schema === "object" && TYPEBOX_KIND in schema
+  );
+}
+
+/**
+ * Convert a schema to JSON Schema. Zod and other Standard Schema validators
+ * are converted with the converter registered for their vendor; JSON
+ * Schemas, including TypeBox schemas, are returned without symbol keys.
+ *
+ * @throws {SchemaConversionError} When no converter is registered for the
+ * schema's library, or the converter's package is not installed
+ */
+export async function convertToJsonSchema(
+  schema: unknown,
+): Promise<JsonSchema> {
+  const vendor = isZodSchema(schema)
+    ? "zod"
+    : isStandardSchema(schema)
+      ? schema["~standard"].vendor
+      : undefined;
+  if (vendor === undefined) {
+    return isTypeBoxSchema(schema)
+      ? (JSON.parse(JSON.stringify(schema)) as JsonSchema)
+      : (schema as JsonSchema);
+  }
+
+  const converter = converters.get(vendor);
+  if (!converter) {
+    throw new SchemaConversionError(
+      `No JSON Schema converter is registered for ${vendor} schemas. Register one with registerSchemaConverter("${vendor}", converter), or pass a JSON Schema instead`,
+      vendor,
+    );
+  }
+  return converter(schema);
+}
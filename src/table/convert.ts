@@ -0,0 +1,77 @@
+import type { AppCellValue } from "../api/apps";
+
+/**
+ * Table data with cells of any type, such as `RunAppTableData` or a table
+ * built from extracted records.
+ *
+ * @typeParam V - The type of each cell
+ */
+export interface TableData<V = AppCellValue> {
+  columns: string[];
+  tableData: V[][];
+}
+
+/**
+ * Convert table data (`columns` + `tableData`) into JSON rows keyed by
+ * column name, the shape returned by `runAppJson`.
+ *
+ * Missing trailing cells become `null`. When column names repeat, the last
+ * cell with that name wins.
+ *
+ * @example
+ * ```typescript
+ * const result = await client.runAppTable({ appId: "abc123xyz", inputs: [] });
+ * const rows = result.data ? tableToRows(result.data) : [];
+ * // [{ Name: "Product A", Price: 29.99 }, ...]
+ * ```
+ */
+export function tableToRows<V = AppCellValue>(
+  table: TableData<V>,
+): Record<string, V | null>[] {
+  return table.tableData.map((cells) =>
+    Object.fromEntries(
+      table.columns.map((column, i) => [
+        column,
+        i < cells.length ? cells[i] : null,
+      ]),
+    ),
+  );
+}
+
+/**
+ * Convert JSON rows into table data, the shape returned by `runAppTable`.
+ *
+ * Columns are taken from `columns` when given, otherwise collected in the
+ * order they first appear across the rows. Missing values become `null`.
+ *
+ * @example
+ * ```typescript
+ * const result = await client.runAppJson({ appId: "abc123xyz", inputs: [] });
+ * const table = rowsToTable(result.data ?? []);
+ * // { columns: ["Name", "Price"], tableData: [["Product A", 29.99], ...] }
+ * ```
+ */
+export function rowsToTable<V = AppCellValue>(
+  rows: readonly Record<string, V>[],
+  columns: string[] = collectColumns(rows),
+): TableData<V | null> {
+  return {
+    columns,
+    tableData: rows.map((row) =>
+      columns.map((column) => (column in row ? row[column] : null)),
+    ),
+  };
+}
+
+/**
+ * Collect the keys of all rows in the order they first appear.
+ */
+export function collectColumns(
+  rows: readonly Record<string, unknown>[],
+): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) columns.add(key);
+  }
+  return [...columns];
+}
@@ -0,0 +1,481 @@
+import type { JsonSchema } from "../api/extract";
+import { collectColumns, type TableData, tableToRows } from "./convert";
+import type { Row, TabularInput } from "./writers";
+
+/**
+ * Semantic type inferred for a column.
+ * - `"integer"` / `"float"` - Numbers, or strings containing plain numbers
+ * - `"boolean"` - Booleans, or the strings `"true"` / `"false"`
+ * - `"date"` - ISO 8601 dates or date-times
+ * - `"url"` - Absolute http(s) URLs
+ * - `"currency"` - Amounts with a currency symbol or code, e.g. `"$1,299.00"`
+ * - `"string"` - Any other text
+ * - `"mixed"` - Values of more than one type
+ * - `"null"` - Only null or empty values
+ */
+export type ColumnType =
+  | "integer"
+  | "float"
+  | "boolean"
+  | "date"
+  | "url"
+  | "currency"
+  | "string"
+  | "mixed"
+  | "null";
+
+/**
+ * JavaScript type the values of a column are stored as.
+ */
+export type ColumnValueType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "mixed"
+  | "null";
+
+/**
+ * Inferred description of a single column.
+ */
+export interface ColumnDescription {
+  /**
+   * The column name.
+   */
+  name: string;
+
+  /**
+   * The inferred semantic type.
+   */
+  type: ColumnType;
+
+  /**
+   * The JavaScript type of the non-null values. A column of `"integer"` type
+   * may be stored as strings (e.g. `"42"`).
+   */
+  valueType: ColumnValueType;
+
+  /**
+   * For `"date"` columns, whether any value includes a time.
+   */
+  hasTime?: boolean;
+
+  /**
+   * For `"date"` columns, whether every value is a date-time with seconds
+   * and a UTC offset, as the JSON Schema `"date-time"` format (RFC 3339)
+   * requires.
+   */
+  isDateTime?: boolean;
+
+  /**
+   * Share of rows whose value is `null`, missing or an empty string (0-1).
+   */
+  nullRatio: number;
+
+  /**
+   * Whether any value is an empty string.
+   */
+  hasEmptyStrings?: boolean;
+
+  /**
+   * Whether any row lacks the column.
+   */
+  hasMissing?: boolean;
+
+  /**
+   * Number of distinct non-null values.
+   */
+  distinctCount: number;
+}
+
+/**
+ * Inferred description of a table, as returned by {@link describeTable}.
+ */
+export interface TableDescription {
+  /**
+   * Number of rows inspected.
+   */
+  rowCount: number;
+
+  /**
+   * One description per column, in column order.
+   */
+  columns: ColumnDescription[];
+}
+
+/**
+ * A difference between a pinned table description and a new one.
+ */
+export interface TableDrift {
+  /**
+   * The column that changed.
+   */
+  column: string;
+
+  /**
+   * What changed.
+   * - `"added"` - The column is new
+   * - `"removed"` - The column disappeared
+   * - `"type"` - The inferred type changed
+   * - `"nullable"` - The column now contains nulls where it had none
+   */
+  kind: "added" | "removed" | "type" | "nullable";
+
+  /**
+   * The pinned column description, if the column existed before.
+   */
+  expected?: ColumnDescription;
+
+  /**
+   * The new column description, if the column still exists.
+   */
+  actual?: ColumnDescription;
+}
+
+// The forms accepted by `z.iso.date()` and
+// `z.iso.datetime({ offset: true, local: true })`
+const ISO_DATE =
+  /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?$/;
+// RFC 3339 date-times, which the `"date-time"` format is limited to
+const DATE_TIME = /T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/;
+const CURRENCY =
+  /^(?:[-+]?\s*[$€£¥₩]\s*\d[\d,]*(?:\.\d+)?|[-+]?\d[\d,]*(?:\.\d+)?\s*(?:USD|EUR|GBP|JPY|KRW|CNY|CAD|AUD))$/i;
+const INTEGER = /^-?\d+$/;
+const FLOAT = /^-?\d+\.\d+$/;
+
+function isUrl(text: string): boolean {
+  if (!/^https?:\/\/\S+$/i.test(text)) {
+    return false;
+  }
+  try {
+    new URL(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isIsoDate(text: string): boolean {
+  if (!ISO_DATE.test(text) || Number.isNaN(Date.parse(text))) {
+    return false;
+  }
+  // Date.parse rolls over days such as February 30
+  const day = text.slice(0, 10);
+  return new Date(`${day}T00:00:00Z`).toISOString().startsWith(day);
+}
+
+function classify(value: unknown): {
+  type: ColumnType;
+  valueType: ColumnValueType;
+  hasTime?: boolean;
+  isDateTime?: boolean;
+} {
+  if (typeof value === "boolean") {
+    return { type: "boolean", valueType: "boolean" };
+  }
+  if (typeof value === "number") {
+    return {
+      type: Number.isInteger(value) ? "integer" : "float",
+      valueType: "number",
+    };
+  }
+  if (typeof value !== "string") {
+    return { type: "mixed", valueType: "mixed" };
+  }
+  // Untrimmed, so that the schemas emitted for the type accept the value
+  const type: ColumnType = /^(?:true|false)$/i.test(value)
+    ? "boolean"
+    : INTEGER.test(value)
+      ? "integer"
+      : FLOAT.test(value)
+        ? "float"
+        : isIsoDate(value)
+          ? "date"
+          : CURRENCY.test(value)
+            ? "currency"
+            : isUrl(value)
+              ? "url"
+              : "string";
+  return {
+    type,
+    valueType: "string",
+    ...(type === "date"
+      ? { hasTime: value.length > 10, isDateTime: DATE_TIME.test(value) }
+      : {}),
+  };
+}
+
+function isNullish(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+function describeColumn(name: string, rows: Row[]): ColumnDescription {
+  const types = new Set<ColumnType>();
+  const valueTypes = new Set<ColumnValueType>();
+  const distinct = new Set<string>();
+  let nulls = 0;
+  let hasTime = false;
+  let isDateTime = true;
+  let hasEmptyStrings = false;
+  let hasMissing = false;
+
+  for (const row of rows) {
+    const value = row[name];
+    if (isNullish(value)) {
+      nulls++;
+      hasEmptyStrings ||= value === "";
+      hasMissing ||= value === undefined;
+      continue;
+    }
+    const result = classify(value);
+    types.add(result.type);
+    valueTypes.add(result.valueType);
+    hasTime ||= result.hasTime ?? false;
+    isDateTime &&= result.isDateTime ?? false;
+    distinct.add(`${typeof value}:${JSON.stringify(value)}`);
+  }
+
+  if (types.has("integer") && types.has("float")) {
+    types.delete("integer");
+  }
+  const type: ColumnType =
+    types.size === 0 ? "null" : types.size === 1 ? [...types][0] : "mixed";
+  const valueType: ColumnValueType =
+    valueTypes.size === 0
+      ? "null"
+      : valueTypes.size === 1
+        ? [...valueTypes][0]
+        : "mixed";
+
+  return {
+    name,
+    type,
+    valueType,
+    ...(type === "date" ? { hasTime, isDateTime } : {}),
+    nullRatio: rows.length > 0 ? nulls / rows.length : 0,
+    ...(hasEmptyStrings ? { hasEmptyStrings } : {}),
+    ...(hasMissing ? { hasMissing } : {}),
+    distinctCount: distinct.size,
+  };
+}
+
+/**
+ * Infer the type, null ratio and distinct count of every column.
+ *
+ * Accepts `runAppTable` data or `runAppJson` rows. Empty strings count as
+ * null. The result can be pinned as a JSON Schema or Zod schema with
+ * {@link tableDescriptionToJsonSchema} and {@link tableDescriptionToZod},
+ * or compared with a later run using {@link compareTableDescriptions}.
+ *
+ * @example
+ * ```typescript
+ * const result = await client.runAppTable({ appId: "abc123xyz", inputs: [] });
+ * if (result.data) {
+ *   const description = describeTable(result.data);
+ *   // { rowCount: 2, columns: [{ name: "Price", type: "float", nullRatio: 0, ... }] }
+ * }
+ * ```
+ */
+export function describeTable(data: TabularInput): TableDescription {
+  const rows = Array.isArray(data)
+    ? [...(data as readonly Row[])]
+    : tableToRows(data as TableData<unknown>);
+  const columns = Array.isArray(data)
+    ? collectColumns(rows)
+    : (data as TableData<unknown>).columns;
+
+  return {
+    rowCount: rows.length,
+    columns: columns.map((name) => describeColumn(name, rows)),
+  };
+}
+
+function columnJsonSchema(column: ColumnDescription): JsonSchema {
+  let schema: JsonSchema;
+  switch (column.valueType) {
+    case "number":
+      schema = { type: column.type === "integer" ? "integer" : "number" };
+      break;
+    case "boolean":
+      schema = { type: "boolean" };
+      break;
+    case "string":
+      schema = { type: "string" };
+      if (column.type === "date") {
+        if (!column.hasTime) {
+          schema.format = "date";
+        } else if (column.isDateTime) {
+          schema.format = "date-time";
+        } else {
+          // Local times and times without seconds are not valid date-times
+          schema.pattern = ISO_DATE.source;
+        }
+      } else if (column.type === "url") {
+        schema.format = "uri";
+      } else if (column.type === "integer") {
+        schema.pattern = INTEGER.source;
+      } else if (column.type === "float") {
+        schema.pattern = "^-?\\d+(\\.\\d+)?$";
+      }
+      break;
+    default:
+      return {};
+  }
+  // Restricted schemas reject the empty strings counted as nulls
+  if (
+    column.hasEmptyStrings &&
+    (schema.type !== "string" || schema.format || schema.pattern)
+  ) {
+    return {
+      anyOf: [
+        schema,
+        { const: "" },
+        ...(column.nullRatio > 0 ? [{ type: "null" }] : []),
+      ],
+    };
+  }
+  if (column.nullRatio > 0) {
+    schema.type = [schema.type, "null"];
+  }
+  return schema;
+}
+
+/**
+ * Convert a table description into a JSON Schema for an array of rows.
+ * Columns missing from some rows are optional; columns containing nulls
+ * accept `null`, and columns containing empty strings accept `""`.
+ */
+export function tableDescriptionToJsonSchema(
+  description: TableDescription,
+): JsonSchema {
+  return {
+    type: "array",
+    items: {
+      type: "object",
+      properties: Object.fromEntries(
+        description.columns.map((column) => [
+          column.name,
+          columnJsonSchema(column),
+        ]),
+      ),
+      required: description.columns
+        .filter((column) => !column.hasMissing)
+        .map((column) => column.name),
+    },
+  };
+}
+
+function columnZod(column: ColumnDescription): string {
+  let schema: string;
+  switch (column.valueType) {
+    case "number":
+      schema = column.type === "integer" ? "z.number().int()" : "z.number()";
+      break;
+    case "boolean":
+      schema = "z.boolean()";
+      break;
+    case "string":
+      schema =
+        column.type === "date"
+          ? column.hasTime
+            ? "z.iso.datetime({ offset: true, local: true })"
+            : "z.iso.date()"
+          : column.type === "url"
+            ? "z.url()"
+            : "z.string()";
+      break;
+    default:
+      return "z.unknown()";
+  }
+  if (column.hasEmptyStrings && schema !== "z.string()") {
+    schema += `.or(z.literal(""))`;
+  }
+  if (column.nullRatio > 0) {
+    schema += ".nullable()";
+  }
+  return column.hasMissing ? `${schema}.optional()` : schema;
+}
+
+/**
+ * Generate TypeScript source for a Zod (`zod/v4`) row schema matching a table
+ * description, ready to be committed and used with `runAppJson`'s `schema`
+ * option.
+ *
+ * @param description - The table description
+ * @param name - Name of the exported schema and type
+ *
+ * @example
+ * ```typescript
+ * await writeFile("product-row.ts", tableDescriptionToZod(description, "ProductRow"));
+ * ```
+ */
+export function tableDescriptionToZod(
+  description: TableDescription,
+  name = "Row",
+): string {
+  const properties = description.columns
+    .map((column) => {
+      const key = /^[A-Za-z_$][\w$]*$/.test(column.name)
+        ? column.name
+        : JSON.stringify(column.name);
+      return `  ${key}: ${columnZod(column)},\n`;
+    })
+    .join("");
+  return (
+    `import { z } from "zod/v4";\n\n` +
+    `export const ${name} = z.object({\n${properties}});\n\n` +
+    `export type ${name} = z.infer<typeof ${name}>;\n`
+  );
+}
+
+/**
+ * Compare a pinned table description with a new one and list the columns
+ * that were added, removed, changed type or became nullable.
+ *
+ * @example
+ * ```typescript
+ * const drift = compareTableDescriptions(pinned, describeTable(result.data));
+ * if (drift.length > 0) {
+ *   console.warn("App output drifted:", drift);
+ * }
+ * ```
+ */
+export function compareTableDescriptions(
+  expected: TableDescription,
+  actual: TableDescription,
+): TableDrift[] {
+  const drift: TableDrift[] = [];
+  const actualColumns = new Map(
+    actual.columns.map((column) => [column.name, column]),
+  );
+  const expectedNames = new Set(expected.columns.map((column) => column.name));
+
+  for (const column of expected.columns) {
+    const current = actualColumns.get(column.name);
+    if (!current) {
+      drift.push({ column: column.name, kind: "removed", expected: column });
+    } else if (
+      current.type !== "null" &&
+      (current.type !== column.type || current.valueType !== column.valueType)
+    ) {
+      drift.push({
+        column: column.name,
+        kind: "type",
+        expected: column,
+        actual: current,
+      });
+    } else if (current.nullRatio > 0 && column.nullRatio === 0) {
+      drift.push({
+        column: column.name,
+        kind: "nullable",
+        expected: column,
+        actual: current,
+      });
+    }
+  }
+  for (const column of actual.columns) {
+    if (!expectedNames.has(column.name)) {
+      drift.push({ column: column.name, kind: "added", actual: column });
+    }
+  }
+  return drift;
+}
@@ -0,0 +1,340 @@
+import { Readable } from "node:stream";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+import { z } from "zod/v4";
+import type { RunAppTableData } from "../api/apps";
+import type { JsonSchema } from "../api/extract";
+import {
+  compareTableDescriptions,
+  describeTable,
+  rowsToTable,
+  streamCsv,
+  streamMarkdown,
+  streamNdjson,
+  tableDescriptionToJsonSchema,
+  tableDescriptionToZod,
+  tableToRows,
+  toCsv,
+  toMarkdown,
+  toNdjson,
+  toReadableStream,
+  toTsv,
+} from "./index";
+
+const table: RunAppTableData = {
+  columns: ["Name", "Price", "Note"],
+  tableData: [
+    ["Product A", 29.99, null],
+    ['Product "B", large', 49.99, "line 1\nline 2"],
+  ],
+};
+
+const rows = [
+  { Name: "Product A", Price: 29.99, Note: null },
+  { Name: 'Product "B", large', Price: 49.99, Note: "line 1\nline 2" },
+];
+
+// Evaluate generated schema source, resolving its `zod/v4` import
+const evaluate = (source: string): Record<string, unknown> => {
+  const exports: Record<string, unknown> = {};
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS },
+  });
+  new Function("require", "exports", outputText)(() => ({ z }), exports);
+  return exports;
+};
+
+const collect = async (chunks: AsyncIterable<string>) => {
+  let text = "";
+  for await (const chunk of chunks) text += chunk;
+  return text;
+};
+
+describe("table converters", () => {
+  it("should convert table data to rows and back, keeping column order", () => {
+    expect(tableToRows(table)).toEqual(rows);
+    expect(rowsToTable(rows)).toEqual(table);
+  });
+
+  it("should fill missing values with null", () => {
+    expect(rowsToTable([{ a: 1 }, { b: 2 }])).toEqual({
+      columns: ["a", "b"],
+      tableData: [
+        [1, null],
+        [null, 2],
+      ],
+    });
+    expect(tableToRows({ columns: ["a", "b"], tableData: [[1]] })).toEqual([
+      { a: 1, b: null },
+    ]);
+  });
+
+  it("should use the given column order", () => {
+    expect(rowsToTable(rows, ["Price", "Name"]).tableData[0]).toEqual([
+      29.99,
+      "Product A",
+    ]);
+  });
+});
+
+describe("writers", () => {
+  it("should write RFC 4180 CSV with quoting and CRLF", () => {
+    const expected =
+      "Name,Price,Note\r\n" +
+      "Product A,29.99,\r\n" +
+      '"Product ""B"", large",49.99,"line 1\nline 2"\r\n';
+
+    expect(toCsv(table)).toBe(expected);
+    expect(toCsv(rows)).toBe(expected);
+  });
+
+  it("should support BOM, null value and header options", () => {
+    const csv = toCsv(table, {
+      bom: true,
+      nullValue: "NULL",
+      header: false,
+      lineEnding: "\n",
+    });
+
+    expect(csv.startsWith("\uFEFFProduct A,29.99,NULL\n")).toBe(true);
+  });
+
+  it("should write TSV", () => {
+    expect(toTsv({ columns: ["a", "b"], tableData: [["x\ty", 1]] })).toBe(
+      'a\tb\r\n"x\ty"\t1\r\n',
+    );
+  });
+
+  it("should write NDJSON", () => {
+    expect(toNdjson(table)).toBe(
+      rows.map((row) => `${JSON.stringify(row)}\n`).join(""),
+    );
+  });
+
+  it("should write GitHub Markdown tables", () => {
+    expect(
+      toMarkdown({ columns: ["a|b", "c"], tableData: [["x\ny", null]] }),
+    ).toBe("| a\\|b | c |\n| --- | --- |\n| x<br>y |  |\n");
+  });
+
+  it("should stream from arrays, Node streams and Web streams", async () => {
+    const expected = toCsv(rows);
+
+    expect(await collect(streamCsv(rows))).toBe(expected);
+    expect(await collect(streamCsv(Readable.from(rows)))).toBe(expected);
+    expect(
+      await collect(
+        streamCsv(
+          new ReadableStream({
+            start(controller) {
+              for (const row of rows) controller.enqueue(row);
+              controller.close();
+            },
+          }),
+        ),
+      ),
+    ).toBe(expected);
+    expect(await collect(streamNdjson(rows))).toBe(toNdjson(rows));
+    expect(await collect(streamMarkdown(rows))).toBe(toMarkdown(rows));
+  });
+
+  it("should write the header for an empty stream with explicit columns", async () => {
+    expect(await collect(streamCsv([], { columns: ["a", "b"] }))).toBe(
+      "a,b\r\n",
+    );
+  });
+
+  it("should wrap text chunks in a Web ReadableStream", async () => {
+    const text = await new Response(toReadableStream(streamCsv(rows))).text();
+
+    expect(text).toBe(toCsv(rows));
+  });
+});
+
+describe("describeTable", () => {
+  const products: RunAppTableData = {
+    columns: ["id", "price", "listed", "url", "cost", "inStock", "note"],
+    tableData: [
+      [1, 29.99, "2024-01-02", "https://a.example/1", "$1,299.00", true, null],
+      [2, 15, "2024-02-03", "https://a.example/2", "€5.50", "false", "x"],
+      [3, 9.5, "", "https://a.example/2", "$3", true, 7],
+      [3, null, "2024-03-04", "https://a.example/3", "$4", false, ""],
+    ],
+  };
+
+  it("should infer column types, null ratios and distinct counts", () => {
+    const description = describeTable(products);
+    expect(description.rowCount).toBe(4);
+    expect(
+      description.columns.map(({ name, type, valueType }) => [
+        name,
+        type,
+        valueType,
+      ]),
+    ).toEqual([
+      ["id", "integer", "number"],
+      ["price", "float", "number"],
+      ["listed", "date", "string"],
+      ["url", "url", "string"],
+      ["cost", "currency", "string"],
+      ["inStock", "boolean", "mixed"],
+      ["note", "mixed", "mixed"],
+    ]);
+    const [id, price, listed, url] = description.columns;
+    expect(id).toMatchObject({ nullRatio: 0, distinctCount: 3 });
+    expect(price).toMatchObject({ nullRatio: 0.25, distinctCount: 3 });
+    expect(listed).toMatchObject({ nullRatio: 0.25, hasTime: false });
+    expect(url.distinctCount).toBe(3);
+  });
+
+  it("should describe rows and infer numeric strings", () => {
+    const description = describeTable([
+      { sku: "007", rating: "4.5" },
+      { sku: "12", rating: "3" },
+    ]);
+    expect(description.columns).toEqual([
+      {
+        name: "sku",
+        type: "integer",
+        valueType: "string",
+        nullRatio: 0,
+        distinctCount: 2,
+      },
+      {
+        name: "rating",
+        type: "float",
+        valueType: "string",
+        nullRatio: 0,
+        distinctCount: 2,
+      },
+    ]);
+  });
+
+  it("should emit a JSON Schema and Zod source", () => {
+    const description = describeTable({
+      columns: ["id", "price", "listed", "Product URL"],
+      tableData: [
+        [1, 2.5, "2024-01-02T10:00:00Z", "https://a.example"],
+        [2, null, "2024-01-03T10:00:00Z", "https://b.example"],
+      ],
+    });
+
+    expect(tableDescriptionToJsonSchema(description)).toEqual({
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "integer" },
+          price: { type: ["number", "null"] },
+          listed: { type: "string", format: "date-time" },
+          "Product URL": { type: "string", format: "uri" },
+        },
+        required: ["id", "price", "listed", "Product URL"],
+      },
+    });
+    expect(tableDescriptionToZod(description, "ProductRow")).toBe(
+      `import { z } from "zod/v4";
+
+export const ProductRow = z.object({
+  id: z.number().int(),
+  price: z.number().nullable(),
+  listed: z.iso.datetime({ offset: true, local: true }),
+  "Product URL": z.url(),
+});
+
+export type ProductRow = z.infer<typeof ProductRow>;
+`,
+    );
+  });
+
+  it("should only use the date-time format for RFC 3339 date-times", () => {
+    const schemaFor = (...values: string[]) => {
+      const { items } = tableDescriptionToJsonSchema(
+        describeTable(values.map((when) => ({ when }))),
+      ) as { items: { properties: Record<string, JsonSchema> } };
+      return items.properties.when;
+    };
+
+    expect(schemaFor("2024-01-01T10:00:00+09:00")).toEqual({
+      type: "string",
+      format: "date-time",
+    });
+    for (const values of [
+      ["2024-01-01T10:00"],
+      ["2024-01-01T10:00:00"],
+      ["2024-01-01", "2024-01-02T10:00:00Z"],
+    ]) {
+      const schema = schemaFor(...values);
+      expect(schema).not.toHaveProperty("format");
+      for (const value of values) {
+        expect(value).toMatch(new RegExp(schema.pattern as string));
+      }
+    }
+  });
+
+  it("should emit schemas that accept the rows they were inferred from", () => {
+    const rows = [
+      { id: "1", when: "2024-01-01 10:00:00", url: "https://a.com", n: 1 },
+      { id: "", when: "2024-01-02 11:00:00", url: "", n: "" },
+      { id: "3", when: "2024-01-03 12:00:00", url: null },
+    ];
+    const description = describeTable(rows);
+    expect(description.columns.map(({ type }) => type)).toEqual([
+      "integer",
+      "string",
+      "url",
+      "integer",
+    ]);
+
+    const { Row } = evaluate(tableDescriptionToZod(description)) as {
+      Row: z.ZodType;
+    };
+    for (const row of rows) {
+      expect(Row.safeParse(row).error).toBeUndefined();
+    }
+    expect(Row.safeParse({ ...rows[0], url: "not a url" }).success).toBe(false);
+    expect(tableDescriptionToJsonSchema(description).items).toMatchObject({
+      properties: {
+        id: {
+          anyOf: [
+            { type: "string", pattern: "^-?\\d+$" },
+            { const: "" },
+            { type: "null" },
+          ],
+        },
+        when: { type: "string" },
+      },
+      required: ["id", "when", "url"],
+    });
+  });
+
+  it("should only infer dates that the schemas accept", () => {
+    const description = describeTable([
+      { a: "2024-01-01T10:00", b: "2024-02-30", c: "2024-01-01T10:00+0100" },
+    ]);
+    expect(description.columns.map(({ type }) => type)).toEqual([
+      "date",
+      "string",
+      "string",
+    ]);
+  });
+
+  it("should report drift between descriptions", () => {
+    const pinned = describeTable([{ id: 1, name: "A", price: 2 }]);
+    const current = describeTable([
+      { id: "x", name: null, sku: "s" },
+      { id: "y", name: "B", sku: "t" },
+    ]);
+    expect(
+      compareTableDescriptions(pinned, current).map(({ column, kind }) => [
+        column,
+        kind,
+      ]),
+    ).toEqual([
+      ["id", "type"],
+      ["name", "nullable"],
+      ["price", "removed"],
+      ["sku", "added"],
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+export {
+  collectColumns,
+  rowsToTable,
+  type TableData,
+  tableToRows,
+} from "./convert";
+export {
+  type ColumnDescription,
+  type ColumnType,
+  type ColumnValueType,
+  compareTableDescriptions,
+  describeTable,
+  type TableDescription,
+  type TableDrift,
+  tableDescriptionToJsonSchema,
+  tableDescriptionToZod,
+} from "./describe";
+export {
+  type DelimitedOptions,
+  type MarkdownOptions,
+  type Row,
+  type RowSource,
+  streamCsv,
+  streamMarkdown,
+  streamNdjson,
+  streamTsv,
+  type TabularInput,
+  toCsv,
+  toMarkdown,
+  toNdjson,
+  toReadableStream,
+  toTsv,
+} from "./writers";
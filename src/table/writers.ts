@@ -0,0 +1,372 @@
+import { collectColumns, type TableData, tableToRows } from "./convert";
+
+/**
+ * A row keyed by column name, such as an `AppJsonRow` or an extracted record.
+ */
+export type Row = Record<string, unknown>;
+
+/**
+ * Data accepted by the writers: table data (`columns` + `tableData`) or an
+ * array of rows.
+ */
+export type TabularInput = TableData<unknown> | readonly Row[];
+
+/**
+ * A stream of rows: an array or other iterable, an async iterable (such as a
+ * Node.js `Readable` in object mode or `runAppBatch` output mapped to rows),
+ * or a Web `ReadableStream`.
+ */
+export type RowSource =
+  | Iterable<Row>
+  | AsyncIterable<Row>
+  | ReadableStream<Row>;
+
+/**
+ * Options for CSV and TSV output.
+ */
+export interface DelimitedOptions {
+  /**
+   * Columns to write, in order. Defaults to the table's columns, or to the
+   * keys of the rows in the order they first appear. When streaming, only
+   * the first row is used to detect columns.
+   */
+  columns?: string[];
+
+  /**
+   * Whether to write a header row with the column names.
+   * @default true
+   */
+  header?: boolean;
+
+  /**
+   * Text written for `null` and missing values.
+   * @default ""
+   */
+  nullValue?: string;
+
+  /**
+   * Prefix the output with a UTF-8 byte order mark so Excel detects the
+   * encoding.
+   * @default false
+   */
+  bom?: boolean;
+
+  /**
+   * Line terminator. RFC 4180 specifies CRLF.
+   * @default "\r\n"
+   */
+  lineEnding?: "\r\n" | "\n";
+}
+
+/**
+ * Options for Markdown output.
+ */
+export interface MarkdownOptions {
+  /**
+   * Columns to write, in order. Defaults to the table's columns, or to the
+   * keys of the rows in the order they first appear.
+   */
+  columns?: string[];
+
+  /**
+   * Text written for `null` and missing values.
+   * @default ""
+   */
+  nullValue?: string;
+}
+
+const BOM = "\uFEFF";
+
+function isTableData(data: TabularInput): data is TableData<unknown> {
+  return !Array.isArray(data);
+}
+
+function resolve(
+  data: TabularInput,
+  columns?: string[],
+): { columns: string[]; rows: Row[] } {
+  if (isTableData(data)) {
+    return { columns: columns ?? data.columns, rows: tableToRows(data) };
+  }
+  const rows = data as readonly Row[];
+  return { columns: columns ?? collectColumns(rows), rows: [...rows] };
+}
+
+function cellText(value: unknown, nullValue: string): string {
+  if (value === null || value === undefined) {
+    return nullValue;
+  }
+  if (typeof value === "object") {
+    return value instanceof Date ? value.toISOString() : JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function delimitedLine(
+  cells: unknown[],
+  delimiter: string,
+  nullValue: string,
+): string {
+  return cells
+    .map((cell) => {
+      const text = cellText(cell, nullValue);
+      return text.includes(delimiter) || /["\r\n]/.test(text)
+        ? `"${text.replace(/"/g, '""')}"`
+        : text;
+    })
+    .join(delimiter);
+}
+
+function markdownLine(cells: unknown[], nullValue: string): string {
+  const escaped = cells.map((cell) =>
+    cellText(cell, nullValue).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>"),
+  );
+  return `| ${escaped.join(" | ")} |`;
+}
+
+function markdownSeparator(columns: string[]): string {
+  return `| ${columns.map(() => "---").join(" | ")} |`;
+}
+
+function delimited(
+  delimiter: string,
+  data: TabularInput,
+  options: DelimitedOptions,
+): string {
+  const {
+    header = true,
+    nullValue = "",
+    bom = false,
+    lineEnding = "\r\n",
+  } = options;
+  const { columns, rows } = resolve(data, options.columns);
+  const lines = rows.map((row) =>
+    delimitedLine(
+      columns.map((column) => row[column]),
+      delimiter,
+      nullValue,
+    ),
+  );
+  if (header) {
+    lines.unshift(delimitedLine(columns, delimiter, nullValue));
+  }
+  const body = lines.map((line) => line + lineEnding).join("");
+  return bom ? BOM + body : body;
+}
+
+/**
+ * Serialize rows or table data as RFC 4180 CSV.
+ *
+ * Fields containing commas, quotes or line breaks are quoted, and quotes are
+ * doubled. `null` values are written as `nullValue` (empty by default).
+ *
+ * @example
+ * ```typescript
+ * const result = await client.runAppTable({ appId: "abc123xyz", inputs: [] });
+ * if (result.data) {
+ *   await writeFile("products.csv", toCsv(result.data, { bom: true }));
+ * }
+ * ```
+ */
+export function toCsv(
+  data: TabularInput,
+  options: DelimitedOptions = {},
+): string {
+  return delimited(",", data, options);
+}
+
+/**
+ * Serialize rows or table data as tab-separated values, quoting fields the
+ * same way as {@link toCsv}.
+ */
+export function toTsv(
+  data: TabularInput,
+  options: DelimitedOptions = {},
+): string {
+  return delimited("\t", data, options);
+}
+
+/**
+ * Serialize rows or table data as newline-delimited JSON, one row object
+ * per line.
+ */
+export function toNdjson(data: TabularInput): string {
+  const { rows } = resolve(data);
+  return rows.map((row) => `${JSON.stringify(row)}\n`).join("");
+}
+
+/**
+ * Serialize rows or table data as a GitHub-flavored Markdown table.
+ * Pipes are escaped and line breaks are written as `<br>`.
+ */
+export function toMarkdown(
+  data: TabularInput,
+  options: MarkdownOptions = {},
+): string {
+  const { nullValue = "" } = options;
+  const { columns, rows } = resolve(data, options.columns);
+  return [
+    markdownLine(columns, nullValue),
+    markdownSeparator(columns),
+    ...rows.map((row) =>
+      markdownLine(
+        columns.map((column) => row[column]),
+        nullValue,
+      ),
+    ),
+  ]
+    .map((line) => `${line}\n`)
+    .join("");
+}
+
+async function* iterateRows(source: RowSource): AsyncGenerator<Row> {
+  if (
+    typeof ReadableStream !== "undefined" &&
+    source instanceof ReadableStream
+  ) {
+    const reader = source.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+  yield* source as Iterable<Row> | AsyncIterable<Row>;
+}
+
+async function* streamDelimited(
+  delimiter: string,
+  source: RowSource,
+  options: DelimitedOptions,
+): AsyncGenerator<string> {
+  const {
+    header = true,
+    nullValue = "",
+    bom = false,
+    lineEnding = "\r\n",
+  } = options;
+  const start = (columns: string[]) =>
+    (bom ? BOM : "") +
+    (header ? delimitedLine(columns, delimiter, nullValue) + lineEnding : "");
+
+  let columns = options.columns;
+  if (columns && (header || bom)) {
+    yield start(columns);
+  }
+  for await (const row of iterateRows(source)) {
+    if (!columns) {
+      columns = Object.keys(row);
+      if (header || bom) yield start(columns);
+    }
+    yield delimitedLine(
+      columns.map((column) => row[column]),
+      delimiter,
+      nullValue,
+    ) + lineEnding;
+  }
+}
+
+/**
+ * Stream rows as CSV, yielding one line at a time.
+ * Use with `Readable.from()` in Node.js or {@link toReadableStream} for
+ * Web streams.
+ *
+ * @example
+ * ```typescript
+ * import { Readable } from "node:stream";
+ * import { pipeline } from "node:stream/promises";
+ *
+ * await pipeline(
+ *   Readable.from(streamCsv(rows)),
+ *   createWriteStream("products.csv"),
+ * );
+ * ```
+ */
+export function streamCsv(
+  source: RowSource,
+  options: DelimitedOptions = {},
+): AsyncGenerator<string> {
+  return streamDelimited(",", source, options);
+}
+
+/**
+ * Stream rows as tab-separated values, yielding one line at a time.
+ */
+export function streamTsv(
+  source: RowSource,
+  options: DelimitedOptions = {},
+): AsyncGenerator<string> {
+  return streamDelimited("\t", source, options);
+}
+
+/**
+ * Stream rows as newline-delimited JSON, yielding one line at a time.
+ */
+export async function* streamNdjson(source: RowSource): AsyncGenerator<string> {
+  for await (const row of iterateRows(source)) {
+    yield `${JSON.stringify(row)}\n`;
+  }
+}
+
+/**
+ * Stream rows as a Markdown table, yielding one line at a time.
+ * Columns are detected from the first row unless given.
+ */
+export async function* streamMarkdown(
+  source: RowSource,
+  options: MarkdownOptions = {},
+): AsyncGenerator<string> {
+  const { nullValue = "" } = options;
+  const start = (columns: string[]) =>
+    `${markdownLine(columns, nullValue)}\n${markdownSeparator(columns)}\n`;
+
+  let columns = options.columns;
+  if (columns) {
+    yield start(columns);
+  }
+  for await (const row of iterateRows(source)) {
+    if (!columns) {
+      columns = Object.keys(row);
+      yield start(columns);
+    }
+    yield `${markdownLine(
+      columns.map((column) => row[column]),
+      nullValue,
+    )}\n`;
+  }
+}
+
+/**
+ * Wrap an async iterable of text chunks (such as {@link streamCsv}) in a Web
+ * `ReadableStream` of UTF-8 bytes, e.g. to return it from a fetch handler.
+ *
+ * @example
+ * ```typescript
+ * return new Response(toReadableStream(streamCsv(rows)), {
+ *   headers: { "Content-Type": "text/csv" },
+ * });
+ * ```
+ */
+export function toReadableStream(
+  chunks: AsyncIterable<string>,
+): ReadableStream<Uint8Array> {
+  const iterator = chunks[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+    async cancel(reason) {
+      await iterator.return?.(reason);
+    },
+  });
+}
@@ -0,0 +1,172 @@
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { InsufficientCreditsError } from "../errors";
+import { FakeNextrowsServer } from "../testing";
+
+describe("telemetry", () => {
+  let spans: InMemorySpanExporter;
+  let metrics: InMemoryMetricExporter;
+  let reader: PeriodicExportingMetricReader;
+  let tracerProvider: BasicTracerProvider;
+  let meterProvider: MeterProvider;
+
+  beforeEach(() => {
+    spans = new InMemorySpanExporter();
+    tracerProvider = new BasicTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(spans)],
+    });
+    metrics = new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE);
+    reader = new PeriodicExportingMetricReader({
+      exporter: metrics,
+      exportIntervalMillis: 60000,
+    });
+    meterProvider = new MeterProvider({ readers: [reader] });
+  });
+
+  afterEach(async () => {
+    await meterProvider.shutdown();
+    await tracerProvider.shutdown();
+  });
+
+  async function exportedMetrics() {
+    await reader.forceFlush();
+    return Object.fromEntries(
+      metrics
+        .getMetrics()
+        .flatMap((resource) => resource.scopeMetrics)
+        .flatMap((scope) => scope.metrics)
+        .map((metric) => [metric.descriptor.name, metric.dataPoints]),
+    );
+  }
+
+  it("should record a span per app run", async () => {
+    const server = new FakeNextrowsServer()
+      .app("app-1", ({ url }) => [{ url }])
+      .fail({ status: 503 });
+    const client = server.createClient({
+      retry: { initialDelay: 1, jitter: false },
+      telemetry: { tracerProvider, meterProvider },
+    });
+
+    const result = await client.runAppJson({
+      appId: "app-1",
+      inputs: [{ key: "url", value: "https://example.com" }],
+    });
+
+    const [span] = spans.getFinishedSpans();
+    expect(span.name).toBe("nextrows runAppJson");
+    expect(span.attributes).toMatchObject({
+      "nextrows.operation": "runAppJson",
+      "nextrows.endpoint": "/v1/apps/run/json",
+      "nextrows.app_id": "app-1",
+      "nextrows.input_count": 1,
+      "http.response.status_code": 200,
+      "nextrows.retry_count": 1,
+      "nextrows.run_id": result.runId,
+      "nextrows.elapsed_time": result.elapsedTime,
+      "nextrows.client_latency": expect.any(Number),
+    });
+    expect(span.attributes).not.toHaveProperty("nextrows.cache");
+  });
+
+  it("should mark responses served from the cache", async () => {
+    const server = new FakeNextrowsServer().app("app-1", [{ ok: true }]);
+    const client = server.createClient({
+      cache: {},
+      telemetry: { tracerProvider, meterProvider },
+    });
+
+    await client.runAppJson({ appId: "app-1", inputs: [] });
+    await client.runAppJson({ appId: "app-1", inputs: [] });
+
+    expect(
+      spans.getFinishedSpans().map((span) => span.attributes["nextrows.cache"]),
+    ).toEqual([undefined, "hit"]);
+  });
+
+  it("should mark failed calls and count them by kind", async () => {
+    const server = new FakeNextrowsServer({ credits: 0 });
+    const client = server.createClient({
+      telemetry: { tracerProvider, meterProvider },
+    });
+
+    await expect(
+      client.extract({ type: "url", data: ["https://example.com"] }),
+    ).rejects.toThrow(InsufficientCreditsError);
+
+    const [span] = spans.getFinishedSpans();
+    expect(span.status.code).toBe(2);
+    expect(span.attributes).toMatchObject({
+      "http.response.status_code": 402,
+      "error.type": "InsufficientCreditsError",
+      "nextrows.input_count": 1,
+    });
+    expect(span.events.map((event) => event.name)).toEqual(["exception"]);
+    const { "nextrows.client.errors": errors } = await exportedMetrics();
+    expect(errors).toEqual([
+      expect.objectContaining({
+        value: 1,
+        attributes: {
+          "nextrows.operation": "extract",
+          "nextrows.endpoint": "/v1/extract",
+          "error.type": "InsufficientCreditsError",
+        },
+      }),
+    ]);
+  });
+
+  it("should count requests and record their latency", async () => {
+    const client = new FakeNextrowsServer().createClient({
+      telemetry: { tracerProvider, meterProvider },
+    });
+
+    await client.getCredits();
+    await client.getCredits();
+
+    const recorded = await exportedMetrics();
+    expect(recorded["nextrows.client.requests"]).toEqual([
+      expect.objectContaining({
+        value: 2,
+        attributes: {
+          "nextrows.operation": "getCredits",
+          "nextrows.endpoint": "/v1/credits",
+          "http.response.status_code": 200,
+        },
+      }),
+    ]);
+    expect(recorded["nextrows.client.duration"][0].value).toMatchObject({
+      count: 2,
+    });
+  });
+
+  it("should run without instrumentation when the API is missing", async () => {
+    vi.resetModules();
+    vi.doMock("@opentelemetry/api", () => {
+      throw new Error("Cannot find package '@opentelemetry/api'");
+    });
+    try {
+      const { FakeNextrowsServer } = await import("../testing");
+      const client = new FakeNextrowsServer().createClient({
+        telemetry: { tracerProvider, meterProvider },
+      });
+
+      await expect(client.getCredits()).resolves.toMatchObject({
+        success: true,
+      });
+      expect(spans.getFinishedSpans()).toHaveLength(0);
+    } finally {
+      vi.doUnmock("@opentelemetry/api");
+      vi.resetModules();
+    }
+  });
+});
@@ -0,0 +1,248 @@
+import type {
+  Attributes,
+  Counter,
+  Histogram,
+  Meter,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  Tracer,
+} from "@opentelemetry/api";
+import type { CacheStatus } from "../cache";
+import { NextrowsError } from "../errors";
+import type { Transport, TransportResponse } from "../transport";
+
+/**
+ * Name of the tracer and meter used by the client.
+ */
+export const INSTRUMENTATION_NAME = "@wordbricks/nextrows-client";
+
+/**
+ * Options for the `telemetry` client option. The tracer and meter
+ * providers default to the globally registered ones.
+ */
+export interface TelemetryOptions {
+  /**
+   * Provider of the tracer creating one span per client call.
+   * @default The global tracer provider of `@opentelemetry/api`
+   */
+  tracerProvider?: { getTracer(name: string, version?: string): unknown };
+
+  /**
+   * Provider of the meter recording request counts, latencies and errors.
+   * @default The global meter provider of `@opentelemetry/api`
+   */
+  meterProvider?: { getMeter(name: string, version?: string): unknown };
+}
+
+/**
+ * A client call to instrument.
+ */
+export interface TelemetryCall {
+  /**
+   * The client method, e.g. `"runAppJson"`.
+   */
+  operation: string;
+
+  /**
+   * The API endpoint, e.g. `"/v1/apps/run/json"`.
+   */
+  endpoint: string;
+
+  /**
+   * The app run, for app calls.
+   */
+  appId?: string;
+
+  /**
+   * Number of app inputs or extraction sources.
+   */
+  inputCount?: number;
+}
+
+interface Instruments {
+  tracer: Tracer;
+  requests: Counter;
+  errors: Counter;
+  duration: Histogram;
+  serverDuration: Histogram;
+  clientKind: SpanKind;
+  errorStatus: SpanStatusCode;
+}
+
+/**
+ * Observe every attempt of a call: its response, or `undefined` when no
+ * response was received.
+ */
+export function observeResponses(
+  transport: Transport,
+  observe: (response: TransportResponse | undefined) => void,
+): Transport {
+  return {
+    async request<T>(request: Parameters<Transport["request"]>[0]) {
+      let response: TransportResponse<T> | undefined;
+      try {
+        response = await transport.request<T>(request);
+        return response;
+      } finally {
+        observe(response);
+      }
+    },
+  };
+}
+
+/**
+ * Records a span and metrics for every client call with OpenTelemetry.
+ * `@opentelemetry/api` is loaded on first use; when it is not installed,
+ * calls run without instrumentation.
+ */
+export class Telemetry {
+  private instruments: Promise<Instruments | undefined> | undefined;
+
+  constructor(private readonly options: TelemetryOptions = {}) {}
+
+  private load(): Promise<Instruments | undefined> {
+    this.instruments ??= import("@opentelemetry/api").then(
+      (api) => {
+        const tracerProvider =
+          this.options.tracerProvider ?? api.trace.getTracerProvider();
+        const meterProvider =
+          this.options.meterProvider ?? api.metrics.getMeterProvider();
+        const meter = meterProvider.getMeter(INSTRUMENTATION_NAME) as Meter;
+        return {
+          tracer: tracerProvider.getTracer(INSTRUMENTATION_NAME) as Tracer,
+          requests: meter.createCounter("nextrows.client.requests", {
+            description: "Client calls to the Nextrows API",
+          }),
+          errors: meter.createCounter("nextrows.client.errors", {
+            description: "Failed client calls to the Nextrows API, by kind",
+          }),
+          duration: meter.createHistogram("nextrows.client.duration", {
+            description: "Latency of client calls, including retries",
+            unit: "ms",
+          }),
+          serverDuration: meter.createHistogram(
+            "nextrows.client.server_duration",
+            {
+              description: "Server-reported elapsed time of app runs",
+              unit: "ms",
+            },
+          ),
+          clientKind: api.SpanKind.CLIENT,
+          errorStatus: api.SpanStatusCode.ERROR,
+        };
+      },
+      () => undefined,
+    );
+    return this.instruments;
+  }
+
+  /**
+   * Run a call in a span and record its metrics.
+   *
+   * @param call - The operation and its attributes
+   * @param run - Runs the call, reporting each response to `observe`
+   * @returns The result of the call
+   */
+  async trace<T>(
+    call: TelemetryCall,
+    run: (
+      observe: (response: TransportResponse | undefined) => void,
+    ) => Promise<T>,
+  ): Promise<T> {
+    const instruments = await this.load();
+    if (!instruments) {
+      return run(() => {});
+    }
+
+    const { tracer } = instruments;
+    const attributes: Attributes = {
+      "nextrows.operation": call.operation,
+      "nextrows.endpoint": call.endpoint,
+      ...(call.appId !== undefined ? { "nextrows.app_id": call.appId } : {}),
+      ...(call.inputCount !== undefined
+        ? { "nextrows.input_count": call.inputCount }
+        : {}),
+    };
+    const metricAttributes: Attributes = {
+      "nextrows.operation": call.operation,
+      "nextrows.endpoint": call.endpoint,
+    };
+
+    return tracer.startActiveSpan(
+      `nextrows ${call.operation}`,
+      { kind: instruments.clientKind, attributes },
+      async (span: Span) => {
+        const started = Date.now();
+        let status: number | undefined;
+        let attempts = 0;
+        const finish = (extra: Attributes) => {
+          const latency = Date.now() - started;
+          span.setAttributes({
+            "nextrows.client_latency": latency,
+            ...(status !== undefined
+              ? { "http.response.status_code": status }
+              : {}),
+            ...extra,
+          });
+          instruments.duration.record(latency, metricAttributes);
+          instruments.requests.add(1, {
+            ...metricAttributes,
+            ...(status !== undefined
+              ? { "http.response.status_code": status }
+              : {}),
+          });
+          span.end();
+        };
+
+        try {
+          const result = await run((response) => {
+            status = response?.status;
+            attempts++;
+          });
+          const { runId, elapsedTime, cache } = (result ?? {}) as {
+            runId?: unknown;
+            elapsedTime?: unknown;
+            cache?: CacheStatus;
+          };
+          if (typeof elapsedTime === "number") {
+            instruments.serverDuration.record(elapsedTime, metricAttributes);
+          }
+          finish({
+            "nextrows.retry_count": Math.max(0, attempts - 1),
+            ...(typeof runId === "string" ? { "nextrows.run_id": runId } : {}),
+            ...(typeof elapsedTime === "number"
+              ? { "nextrows.elapsed_time": elapsedTime }
+              : {}),
+            ...(cache?.hit
+              ? { "nextrows.cache": cache.stale ? "stale" : "hit" }
+              : {}),
+          });
+          return result;
+        } catch (error) {
+          const kind = error instanceof Error ? error.name : "Error";
+          const nextrowsError =
+            error instanceof NextrowsError ? error : undefined;
+          status = nextrowsError?.status ?? status;
+          span.recordException(error as Error);
+          span.setStatus({
+            code: instruments.errorStatus,
+            message: error instanceof Error ? error.message : String(error),
+          });
+          instruments.errors.add(1, {
+            ...metricAttributes,
+            "error.type": kind,
+          });
+          finish({
+            "error.type": kind,
+            "nextrows.retry_count": nextrowsError?.retryCount ?? 0,
+            ...(nextrowsError?.runId !== undefined
+              ? { "nextrows.run_id": nextrowsError.runId }
+              : {}),
+          });
+          throw error;
+        }
+      },
+    );
+  }
+}
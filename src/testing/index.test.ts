@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  AppNotFoundError,
+  AuthenticationError,
+  InsufficientCreditsError,
+  NetworkError,
+  RateLimitError,
+  TimeoutError,
+} from "../client";
+import { FakeNextrowsServer } from "./index";
+
+describe("FakeNextrowsServer", () => {
+  it("should run registered apps as JSON and table", async () => {
+    const server = new FakeNextrowsServer().app("abc123xyz", ({ url }) => [
+      { url, title: "Example" },
+    ]);
+    const client = server.createClient();
+    const inputs = [{ key: "url", value: "https://example.com" }];
+
+    const json = await client.runAppJson({ appId: "abc123xyz", inputs });
+    const table = await client.runAppTable({ appId: "abc123xyz", inputs });
+
+    expect(json).toMatchObject({
+      success: true,
+      data: [{ url: "https://example.com", title: "Example" }],
+      runId: "run_1",
+    });
+    expect(table.data).toEqual({
+      columns: ["url", "title"],
+      tableData: [["https://example.com", "Example"]],
+    });
+    expect(server.requests.map((r) => r.path)).toEqual([
+      "/v1/apps/run/json",
+      "/v1/apps/run/table",
+    ]);
+  });
+
+  it("should return 404 for unknown apps", async () => {
+    const client = new FakeNextrowsServer().createClient();
+
+    await expect(
+      client.runAppJson({ appId: "missing", inputs: [] }),
+    ).rejects.toBeInstanceOf(AppNotFoundError);
+  });
+
+  it("should return scripted extract responses, then the handler", async () => {
+    const server = new FakeNextrowsServer()
+      .scriptExtract([{ name: "A" }], [{ name: "B" }])
+      .onExtract((request) => request.data.map((url) => ({ url })));
+    const client = server.createClient();
+    const request = { type: "url" as const, data: ["https://a.example"] };
+
+    expect((await client.extract(request)).data).toEqual([{ name: "A" }]);
+    expect((await client.extract(request)).data).toEqual([{ name: "B" }]);
+    expect((await client.extract(request)).data).toEqual([
+      { url: "https://a.example" },
+    ]);
+  });
+
+  it("should count down credits and return 402 at zero", async () => {
+    const server = new FakeNextrowsServer({ credits: 1 }).app("app", []);
+    const client = server.createClient();
+
+    await client.runAppJson({ appId: "app", inputs: [] });
+    expect((await client.getCredits()).data?.credits).toBe(0);
+    await expect(
+      client.runAppJson({ appId: "app", inputs: [] }),
+    ).rejects.toBeInstanceOf(InsufficientCreditsError);
+  });
+
+  it("should reject other API keys when one is configured", async () => {
+    const server = new FakeNextrowsServer({ apiKey: "sk-nr-right" });
+
+    await expect(
+      server.createClient({ apiKey: "sk-nr-wrong" }).getCredits(),
+    ).rejects.toBeInstanceOf(AuthenticationError);
+    await expect(server.createClient().getCredits()).resolves.toMatchObject({
+      success: true,
+    });
+  });
+
+  it("should inject failures", async () => {
+    const server = new FakeNextrowsServer()
+      .fail({ status: 429, headers: { "Retry-After": "1" } })
+      .fail("network", { path: "/v1/credits" });
+    const client = server.createClient({ retry: false });
+
+    const error = await client.getCredits().catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(1000);
+    await expect(client.getCredits()).rejects.toBeInstanceOf(NetworkError);
+    await expect(client.getCredits()).resolves.toMatchObject({
+      success: true,
+    });
+  });
+
+  it("should let the client retry injected failures", async () => {
+    const server = new FakeNextrowsServer().fail({ status: 503 }, { times: 2 });
+    const client = server.createClient({
+      retry: { initialDelay: 1, jitter: false },
+    });
+
+    await expect(client.getCredits()).resolves.toMatchObject({
+      success: true,
+    });
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it("should simulate latency and time out slow requests", async () => {
+    const server = new FakeNextrowsServer({ latency: 20 });
+
+    const started = Date.now();
+    await server.createClient().getCredits();
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+
+    server.latency = 100;
+    await expect(
+      server.createClient({ timeout: 10 }).getCredits(),
+    ).rejects.toBeInstanceOf(TimeoutError);
+  });
+});
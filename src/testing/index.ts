@@ -0,0 +1,343 @@
+import type {
+  AppInputValue,
+  AppJsonRow,
+  RunAppJsonResponse,
+  RunAppRequest,
+  RunAppTableResponse,
+} from "../api/apps";
+import type { GetCreditsResponse } from "../api/credits";
+import type {
+  ExtractRequest,
+  ExtractResponse,
+  JsonSchema,
+} from "../api/extract";
+import { Nextrows, type NextrowsOptions } from "../client";
+import { TimeoutError } from "../errors";
+import { sleep } from "../retry";
+import { rowsToTable } from "../table";
+import type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "../transport";
+
+/**
+ * An extract request as received by the fake server, with Zod schemas
+ * already converted to JSON Schema.
+ */
+export type FakeExtractRequest = Omit<ExtractRequest, "schema"> & {
+  schema?: JsonSchema;
+};
+
+/**
+ * Produces the rows of a fake app run.
+ *
+ * @param inputs - The run's inputs as a `key: value` record
+ * @param request - The raw run request
+ */
+export type FakeAppHandler = (
+  inputs: Record<string, AppInputValue>,
+  request: RunAppRequest,
+) => AppJsonRow[] | Promise<AppJsonRow[]>;
+
+/**
+ * Produces the data of a fake extraction.
+ */
+export type FakeExtractHandler = (
+  request: FakeExtractRequest,
+) => unknown | Promise<unknown>;
+
+/**
+ * A failure injected with {@link FakeNextrowsServer.fail}.
+ * - `{ status }` - Respond with this HTTP status, body and headers
+ * - `"network"` - Fail without a response, like a dropped connection
+ * - `"timeout"` - Fail with a timeout
+ */
+export type FakeFailure =
+  | { status: number; error?: string; headers?: Record<string, string> }
+  | "network"
+  | "timeout";
+
+/**
+ * Options for {@link FakeNextrowsServer}.
+ */
+export interface FakeNextrowsServerOptions {
+  /**
+   * Starting credit balance. Every extract or app run costs one credit, and
+   * requests fail with 402 once the balance reaches zero.
+   * @default Infinity
+   */
+  credits?: number;
+
+  /**
+   * Simulated latency of every request in milliseconds. Requests slower than
+   * the client's timeout fail with a `TimeoutError`.
+   * @default 0
+   */
+  latency?: number;
+
+  /**
+   * Only accept this API key; other keys get a 401.
+   * When omitted, any key is accepted.
+   */
+  apiKey?: string;
+}
+
+interface ScheduledFailure {
+  path?: string;
+  failure: FakeFailure;
+  remaining: number;
+}
+
+/**
+ * An in-memory Nextrows API for tests. It implements `/v1/extract`,
+ * `/v1/apps/run/json`, `/v1/apps/run/table` and `/v1/credits`, and plugs into
+ * `Nextrows` as its transport, so no network access is needed.
+ *
+ * @example
+ * ```typescript
+ * import { FakeNextrowsServer } from "@wordbricks/nextrows-client/testing";
+ *
+ * const server = new FakeNextrowsServer({ credits: 2 })
+ *   .app("abc123xyz", ({ url }) => [{ url, title: "Example" }])
+ *   .scriptExtract([{ name: "Product A", price: 29.99 }]);
+ *
+ * const client = server.createClient();
+ * await client.runAppJson({ appId: "abc123xyz", inputs: [{ key: "url", value: "https://example.com" }] });
+ * await client.extract({ type: "url", data: ["https://example.com"] });
+ * await client.getCredits(); // { success: true, data: { credits: 0 } }
+ * ```
+ */
+export class FakeNextrowsServer implements Transport {
+  /**
+   * Remaining simulated credits.
+   */
+  credits: number;
+
+  /**
+   * Simulated latency of every request in milliseconds.
+   */
+  latency: number;
+
+  /**
+   * Every request received, in order.
+   */
+  readonly requests: TransportRequest[] = [];
+
+  private readonly apiKey: string | undefined;
+  private readonly apps = new Map<string, FakeAppHandler>();
+  private readonly extractQueue: FakeExtractHandler[] = [];
+  private extractHandler: FakeExtractHandler | undefined;
+  private failures: ScheduledFailure[] = [];
+  private runCount = 0;
+
+  constructor(options: FakeNextrowsServerOptions = {}) {
+    this.credits = options.credits ?? Number.POSITIVE_INFINITY;
+    this.latency = options.latency ?? 0;
+    this.apiKey = options.apiKey;
+  }
+
+  /**
+   * Register an app. Runs of unknown apps fail with 404.
+   *
+   * @param appId - The ID of the app
+   * @param handler - Function producing the rows, or fixed rows
+   */
+  app(appId: string, handler: FakeAppHandler | AppJsonRow[]): this {
+    this.apps.set(
+      appId,
+      typeof handler === "function" ? handler : () => handler,
+    );
+    return this;
+  }
+
+  /**
+   * Queue the data returned by the next extractions, one per call. Once the
+   * queue is empty, the {@link onExtract} handler is used.
+   */
+  scriptExtract(...responses: unknown[]): this {
+    this.extractQueue.push(...responses.map((data) => () => data));
+    return this;
+  }
+
+  /**
+   * Set the handler for extractions that have no scripted response.
+   * Without one, extractions return an empty array.
+   */
+  onExtract(handler: FakeExtractHandler): this {
+    this.extractHandler = handler;
+    return this;
+  }
+
+  /**
+   * Make the next requests fail.
+   *
+   * @param failure - The failure to inject
+   * @param options - `path` to only fail requests to that path, and `times`
+   * to fail more than one request (default 1)
+   */
+  fail(
+    failure: FakeFailure,
+    options: { path?: string; times?: number } = {},
+  ): this {
+    this.failures.push({
+      path: options.path,
+      failure,
+      remaining: options.times ?? 1,
+    });
+    return this;
+  }
+
+  /**
+   * Create a client sending its requests to this server.
+   */
+  createClient(options: Partial<NextrowsOptions> = {}): Nextrows {
+    return new Nextrows({
+      ...(options.credentials ? {} : { apiKey: this.apiKey ?? "sk-nr-test" }),
+      ...options,
+      transport: this,
+    });
+  }
+
+  /**
+   * Handle a request. Called by the client as its transport.
+   */
+  async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    this.requests.push(request);
+    return (await this.handle(request)) as TransportResponse<T>;
+  }
+
+  private async handle(request: TransportRequest): Promise<TransportResponse> {
+    const { timeout, signal } = request;
+    if (this.latency > 0) {
+      await sleep(
+        timeout && timeout > 0 ? Math.min(this.latency, timeout) : this.latency,
+        signal,
+      );
+      if (timeout && timeout > 0 && this.latency >= timeout) {
+        throw new TimeoutError(`Request to ${request.path} timed out`, {
+          path: request.path,
+        });
+      }
+    }
+
+    const scheduled = this.failures.find(
+      ({ path }) => path === undefined || path === request.path,
+    );
+    if (scheduled) {
+      scheduled.remaining--;
+      this.failures = this.failures.filter(({ remaining }) => remaining > 0);
+      const { failure } = scheduled;
+      if (failure === "network") {
+        throw new Error("socket hang up");
+      }
+      if (failure === "timeout") {
+        throw new TimeoutError(`Request to ${request.path} timed out`, {
+          path: request.path,
+        });
+      }
+      return this.respond(
+        failure.status,
+        { success: false, error: failure.error ?? "Injected failure" },
+        failure.headers,
+      );
+    }
+
+    const authorization = request.headers?.Authorization;
+    if (
+      this.apiKey !== undefined &&
+      authorization !== `Bearer ${this.apiKey}`
+    ) {
+      return this.respond(401, { success: false, error: "Invalid API key" });
+    }
+
+    try {
+      return await this.route(request);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.respond(500, { success: false, error: message });
+    }
+  }
+
+  private async route(request: TransportRequest): Promise<TransportResponse> {
+    const key = `${request.method} ${request.path}`;
+    if (key === "GET /v1/credits") {
+      return this.respond<GetCreditsResponse>(200, {
+        success: true,
+        data: { credits: this.credits },
+      });
+    }
+    if (key === "POST /v1/extract") {
+      if (!this.charge()) return this.insufficientCredits();
+      const body = request.body as FakeExtractRequest;
+      const handler =
+        this.extractQueue.shift() ?? this.extractHandler ?? (() => []);
+      return this.respond<ExtractResponse>(200, {
+        success: true,
+        data: await handler(body),
+      });
+    }
+    if (key === "POST /v1/apps/run/json" || key === "POST /v1/apps/run/table") {
+      const body = request.body as RunAppRequest;
+      const handler = this.apps.get(body.appId);
+      if (!handler) {
+        return this.respond(404, {
+          success: false,
+          error: `App ${body.appId} not found`,
+        });
+      }
+      if (!this.charge()) return this.insufficientCredits();
+
+      const started = Date.now();
+      const inputs = Object.fromEntries(
+        body.inputs.map(({ key, value }) => [key, value]),
+      );
+      const rows = await handler(inputs, body);
+      const run = {
+        runId: `run_${++this.runCount}`,
+        elapsedTime: Date.now() - started,
+      };
+      return request.path.endsWith("/table")
+        ? this.respond<RunAppTableResponse>(200, {
+            success: true,
+            data: rowsToTable(rows),
+            ...run,
+          })
+        : this.respond<RunAppJsonResponse>(200, {
+            success: true,
+            data: rows,
+            ...run,
+          });
+    }
+    return this.respond(404, {
+      success: false,
+      error: `Cannot ${request.method} ${request.path}`,
+    });
+  }
+
+  private charge(): boolean {
+    if (this.credits <= 0) {
+      return false;
+    }
+    this.credits--;
+    return true;
+  }
+
+  private insufficientCredits(): TransportResponse {
+    return this.respond(402, { success: false, error: "Insufficient credits" });
+  }
+
+  private respond<T>(
+    status: number,
+    data: T,
+    headers: Record<string, string> = {},
+  ): TransportResponse<T> {
+    const lowerCased = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name.toLowerCase(),
+        value,
+      ]),
+    );
+    return { status, headers: lowerCased, data };
+  }
+}
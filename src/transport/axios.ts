@@ -0,0 +1,67 @@
+import type { AxiosInstance } from "axios";
+import type { Transport, TransportRequest, TransportResponse } from "./types";
+
+/**
+ * Options for {@link createAxiosTransport}.
+ */
+export interface AxiosTransportOptions {
+  /**
+   * The Axios instance to send requests with, e.g. one with custom
+   * interceptors or proxy settings. Created on first use when omitted.
+   */
+  instance?: AxiosInstance;
+}
+
+let axiosInstance: Promise<AxiosInstance> | undefined;
+
+/**
+ * Load axios on first use so bundles using the fetch transport don't pull
+ * it in.
+ */
+function defaultInstance(): Promise<AxiosInstance> {
+  axiosInstance ??= import("axios").then(({ default: axios }) =>
+    axios.create(),
+  );
+  return axiosInstance;
+}
+
+/**
+ * Create a transport based on axios. This is the default transport.
+ *
+ * @example
+ * ```typescript
+ * const instance = axios.create({ proxy: { host: "127.0.0.1", port: 8080 } });
+ * const client = new Nextrows({
+ *   apiKey,
+ *   transport: createAxiosTransport({ instance }),
+ * });
+ * ```
+ */
+export function createAxiosTransport(
+  options: AxiosTransportOptions = {},
+): Transport {
+  return {
+    async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      const instance = options.instance ?? (await defaultInstance());
+      const response = await instance.request<T>({
+        method: request.method,
+        baseURL: request.baseUrl,
+        url: request.path,
+        headers: request.headers,
+        data: request.body,
+        timeout: request.timeout,
+        signal: request.signal,
+        validateStatus: () => true,
+      });
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(response.headers ?? {})) {
+        if (value !== undefined && value !== null) {
+          headers[name.toLowerCase()] = Array.isArray(value)
+            ? value.join(", ")
+            : String(value);
+        }
+      }
+      return { status: response.status, headers, data: response.data };
+    },
+  };
+}
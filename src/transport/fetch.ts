@@ -0,0 +1,95 @@
+import { TimeoutError } from "../errors";
+import type { Transport, TransportRequest, TransportResponse } from "./types";
+
+/**
+ * Options for {@link createFetchTransport}.
+ */
+export interface FetchTransportOptions {
+  /**
+   * The `fetch` implementation to use.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+function parseBody(text: string): unknown {
+  if (text === "") {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Create a transport based on the standard `fetch` API. It has no
+ * dependencies and runs on Cloudflare Workers, Vercel Edge, Deno, Bun and in
+ * browsers.
+ *
+ * @example
+ * ```typescript
+ * const client = new Nextrows({ apiKey, transport: "fetch" });
+ *
+ * // Or with a custom fetch implementation
+ * const client = new Nextrows({
+ *   apiKey,
+ *   transport: createFetchTransport({ fetch: myFetch }),
+ * });
+ * ```
+ */
+export function createFetchTransport(
+  options: FetchTransportOptions = {},
+): Transport {
+  return {
+    async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      const fetchFn = options.fetch ?? globalThis.fetch;
+      const { method, path, baseUrl = "", headers, body, timeout } = request;
+
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer =
+        timeout && timeout > 0
+          ? setTimeout(() => {
+              timedOut = true;
+              controller.abort();
+            }, timeout)
+          : undefined;
+      const onAbort = () => controller.abort();
+      request.signal?.addEventListener("abort", onAbort);
+      if (request.signal?.aborted) {
+        controller.abort();
+      }
+
+      try {
+        const response = await fetchFn(baseUrl + path, {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: controller.signal,
+        });
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+          responseHeaders[name.toLowerCase()] = value;
+        });
+        return {
+          status: response.status,
+          headers: responseHeaders,
+          data: parseBody(await response.text()) as T,
+        };
+      } catch (error) {
+        if (timedOut) {
+          throw new TimeoutError(`Request to ${path} timed out`, {
+            path,
+            cause: error,
+          });
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        request.signal?.removeEventListener("abort", onAbort);
+      }
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import { fileURLToPath } from "node:url";
+import { build } from "esbuild";
+import nock from "nock";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  AuthenticationError,
+  NetworkError,
+  Nextrows,
+  RateLimitError,
+  TimeoutError,
+  type Transport,
+  type TransportRequest,
+} from "../client";
+
+const BASE_URL = "https://api.nextrows.com";
+const apiKey = "sk-nr-test-api-key";
+
+describe.each(["axios", "fetch"] as const)("%s transport", (transport) => {
+  const client = new Nextrows({ apiKey, transport, retry: false });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it("should send JSON with the authorization header", async () => {
+    const scope = nock(BASE_URL, {
+      reqheaders: {
+        authorization: `Bearer ${apiKey}`,
+        "content-type": /application\/json/,
+      },
+    })
+      .post("/v1/apps/run/json", { appId: "abc123xyz", inputs: [] })
+      .reply(200, { success: true, data: [{ Name: "A" }] });
+
+    const result = await client.runAppJson({ appId: "abc123xyz", inputs: [] });
+
+    expect(scope.isDone()).toBe(true);
+    expect(result.data).toEqual([{ Name: "A" }]);
+  });
+
+  it("should map error statuses to typed errors", async () => {
+    nock(BASE_URL)
+      .get("/v1/credits")
+      .reply(401, { success: false, error: "Invalid API key" });
+
+    const error = await client.getCredits().catch((e) => e);
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error.status).toBe(401);
+    expect(error.serverMessage).toBe("Invalid API key");
+    expect(error.path).toBe("/v1/credits");
+  });
+
+  it("should read the Retry-After header", async () => {
+    nock(BASE_URL)
+      .get("/v1/credits")
+      .reply(429, { error: "Too many requests" }, { "Retry-After": "2" });
+
+    const error = await client.getCredits().catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(2000);
+  });
+
+  it("should map timeouts to TimeoutError", async () => {
+    const slowClient = new Nextrows({ apiKey, transport, timeout: 50 });
+    nock(BASE_URL).get("/v1/credits").delay(200).reply(200, { success: true });
+
+    await expect(slowClient.getCredits()).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it("should map connection failures to NetworkError", async () => {
+    nock(BASE_URL).get("/v1/credits").replyWithError("socket hang up");
+
+    await expect(client.getCredits()).rejects.toBeInstanceOf(NetworkError);
+  });
+});
+
+describe("fetch transport bundles", () => {
+  it("should not import axios until the axios transport is used", async () => {
+    const { outputFiles } = await build({
+      entryPoints: [fileURLToPath(new URL("../index.ts", import.meta.url))],
+      bundle: true,
+      format: "esm",
+      packages: "external",
+      write: false,
+    });
+    const [{ text }] = outputFiles;
+
+    expect(text).not.toMatch(/^import\b.*["']axios["']/m);
+    expect(text).toContain('import("axios")');
+  });
+});
+
+describe("custom transport", () => {
+  it("should receive fully resolved requests", async () => {
+    const requests: TransportRequest[] = [];
+    const transport: Transport = {
+      async request<T>(request: TransportRequest) {
+        requests.push(request);
+        return {
+          status: 200,
+          headers: {},
+          data: { success: true, data: { credits: 7 } } as T,
+        };
+      },
+    };
+    const client = new Nextrows({
+      apiKey,
+      transport,
+      baseUrl: "https://example.test",
+      timeout: 1000,
+    });
+
+    const result = await client.getCredits();
+
+    expect(result.data?.credits).toBe(7);
+    expect(requests).toEqual([
+      {
+        method: "GET",
+        path: "/v1/credits",
+        baseUrl: "https://example.test",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        timeout: 1000,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  createAbortError,
+  createHttpError,
+  parseRetryAfter,
+  toNextrowsError,
+} from "../errors";
+import { createAxiosTransport } from "./axios";
+import { createFetchTransport } from "./fetch";
+import type { Transport, TransportRequest, TransportResponse } from "./types";
+
+export { type AxiosTransportOptions, createAxiosTransport } from "./axios";
+export { createFetchTransport, type FetchTransportOptions } from "./fetch";
+export type {
+  Transport,
+  TransportMethod,
+  TransportRequest,
+  TransportResponse,
+} from "./types";
+
+/**
+ * Transport used by the client.
+ * - `"axios"` - Send requests with axios (default)
+ * - `"fetch"` - Send requests with the standard `fetch` API
+ * - A custom {@link Transport}
+ */
+export type TransportOption = "axios" | "fetch" | Transport;
+
+/**
+ * Resolve the `transport` client option to a transport.
+ */
+export function resolveTransport(option: TransportOption = "axios"): Transport {
+  if (option === "axios") return createAxiosTransport();
+  if (option === "fetch") return createFetchTransport();
+  return option;
+}
+
+const unsent = new WeakSet<object>();
+
+/**
+ * Mark a response as served without sending the request to the API, such as
+ * a cache hit or a cassette replay, so that it is not counted as billed.
+ *
+ * @returns The response
+ */
+export function markUnsent<T>(
+  response: TransportResponse<T>,
+): TransportResponse<T> {
+  unsent.add(response);
+  return response;
+}
+
+/**
+ * Check if a response was marked with {@link markUnsent}.
+ */
+export function isUnsent(response: TransportResponse): boolean {
+  return unsent.has(response);
+}
+
+/**
+ * Wrap a transport so every request gets the given base URL, headers,
+ * timeout and signal unless the request sets its own. Requests whose signal
+ * is aborted fail with an `AbortError`, whatever the transport throws.
+ */
+export function withDefaults(
+  transport: Transport,
+  defaults: Pick<
+    TransportRequest,
+    "baseUrl" | "headers" | "timeout" | "signal"
+  >,
+): Transport {
+  return {
+    async request<T>(request: TransportRequest) {
+      const signal = request.signal ?? defaults.signal;
+      if (signal?.aborted) {
+        throw createAbortError(signal, request.path);
+      }
+      try {
+        return await transport.request<T>({
+          ...request,
+          baseUrl: request.baseUrl ?? defaults.baseUrl,
+          headers: { ...defaults.headers, ...request.headers },
+          timeout: request.timeout ?? defaults.timeout,
+          signal,
+        });
+      } catch (error) {
+        throw signal?.aborted ? createAbortError(signal, request.path) : error;
+      }
+    },
+  };
+}
+
+/**
+ * Send a request and return the response body.
+ *
+ * @throws {NextrowsError} The typed error matching the HTTP status, or a
+ * `TimeoutError` / `NetworkError` when no response was received, or an
+ * `AbortError` when the request was cancelled
+ */
+export async function send<T>(
+  transport: Transport,
+  request: TransportRequest,
+): Promise<T> {
+  const { path } = request;
+  let response: Awaited<ReturnType<Transport["request"]>>;
+  try {
+    response = await transport.request<T>(request);
+  } catch (error) {
+    throw toNextrowsError(error, path);
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw createHttpError(response.status, response.data, path, {
+      retryAfter: parseRetryAfter(response.headers["retry-after"]),
+    });
+  }
+  return response.data as T;
+}
@@ -0,0 +1,90 @@
+/**
+ * HTTP method used by the Nextrows API.
+ */
+export type TransportMethod = "GET" | "POST";
+
+/**
+ * A single HTTP request sent by a {@link Transport}.
+ */
+export interface TransportRequest {
+  /**
+   * The HTTP method.
+   */
+  method: TransportMethod;
+
+  /**
+   * The API path, e.g. `"/v1/extract"`.
+   */
+  path: string;
+
+  /**
+   * Base URL the path is resolved against. Set by the client.
+   */
+  baseUrl?: string;
+
+  /**
+   * Request headers, including `Authorization`. Set by the client.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * JSON request body.
+   */
+  body?: unknown;
+
+  /**
+   * Request timeout in milliseconds. Set by the client.
+   */
+  timeout?: number;
+
+  /**
+   * Signal aborting the request.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * The HTTP response returned by a {@link Transport}.
+ *
+ * @typeParam T - The type of the parsed response body
+ */
+export interface TransportResponse<T = unknown> {
+  /**
+   * The HTTP status code.
+   */
+  status: number;
+
+  /**
+   * Response headers, with lower-case names.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * The parsed JSON body, or the raw text when it is not JSON.
+   */
+  data: T;
+}
+
+/**
+ * Sends HTTP requests to the Nextrows API.
+ *
+ * A transport resolves with the response for every HTTP status, including
+ * error statuses; the client maps those to typed errors. It rejects only when
+ * no response was received, with a `TimeoutError` on timeout or any other
+ * error for connection failures.
+ *
+ * @example
+ * ```typescript
+ * const transport: Transport = {
+ *   async request(request) {
+ *     console.log(request.method, request.path);
+ *     return fetchTransport.request(request);
+ *   },
+ * };
+ * ```
+ */
+export interface Transport {
+  request<T = unknown>(
+    request: TransportRequest,
+  ): Promise<TransportResponse<T>>;
+}